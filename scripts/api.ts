@@ -0,0 +1,181 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { simulate, findOptimalPriceFor } from '../src/lib/simulate';
+import { simulateChurn } from '../src/lib/simulateChurn';
+import { simulationInputSchema, priceOptimizationInputSchema, churnSimulationInputSchema, formatIssues } from '../src/lib/inputSchemas';
+import type { Dataset } from '../src/data/types';
+import { requireMerchant, requirePlan } from './loadDataset';
+
+// Request bodies above this size are rejected before parsing
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type ApiErrorCode = "invalid_json" | "invalid_request" | "not_found" | "method_not_allowed" | "payload_too_large" | "internal";
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: string[];
+  };
+}
+
+class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: string[];
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Engine errors are plain Errors; lookups that miss become 404s, anything else is a server error
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (/^(Plan|Merchant) not found/.test(message) || /^No plans found/.test(message)) {
+    return new ApiError(404, "not_found", message);
+  }
+  return new ApiError(500, "internal", message);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, "payload_too_large", `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  try {
+    return text.length > 0 ? JSON.parse(text) : {};
+  } catch (error) {
+    throw new ApiError(400, "invalid_json", `Invalid JSON: ${(error as Error).message}`);
+  }
+}
+
+function validate<T>(schema: z.ZodType<T, unknown>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ApiError(400, "invalid_request", "Request body failed validation", formatIssues(result.error));
+  }
+  return result.data;
+}
+
+type RouteHandler = (dataset: Dataset, req: IncomingMessage, url: URL) => Promise<unknown> | unknown;
+
+interface Route {
+  method: "GET" | "POST";
+  path: string;
+  handler: RouteHandler;
+}
+
+const ROUTES: Route[] = [
+  {
+    method: "GET",
+    path: "/api/health",
+    handler: () => ({ status: "ok" }),
+  },
+  {
+    method: "GET",
+    path: "/api/dataset",
+    handler: (dataset) => ({
+      merchants: dataset.merchants.length,
+      plans: dataset.plans.length,
+      events: dataset.events.length,
+      cancellationEvents: dataset.cancellationEvents.length,
+      paymentFailureEvents: dataset.paymentFailureEvents.length,
+      pauseEvents: dataset.pauseEvents.length,
+    }),
+  },
+  {
+    method: "GET",
+    path: "/api/merchants",
+    handler: (dataset) => ({ merchants: dataset.merchants }),
+  },
+  {
+    method: "GET",
+    path: "/api/plans",
+    handler: (dataset, _req, url) => {
+      const merchantId = url.searchParams.get("merchantId");
+      if (merchantId) requireMerchant(dataset, merchantId);
+      return { plans: merchantId ? dataset.plans.filter(p => p.merchantId === merchantId) : dataset.plans };
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/simulate",
+    handler: async (dataset, req) => {
+      const input = validate(simulationInputSchema, await readJsonBody(req));
+      requirePlan(dataset, input.merchantId, input.planId);
+      return simulate(dataset, input);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/optimize",
+    handler: async (dataset, req) => {
+      const input = validate(priceOptimizationInputSchema, await readJsonBody(req));
+      requirePlan(dataset, input.merchantId, input.planId);
+      return findOptimalPriceFor(dataset, input);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/churn",
+    handler: async (dataset, req) => {
+      const input = validate(churnSimulationInputSchema, await readJsonBody(req));
+      requirePlan(dataset, input.merchantId, input.planId);
+      const result = simulateChurn(dataset, input);
+      // The raw Monte Carlo samples are thousands of numbers; the summary and histogram describe them
+      return result.monteCarlo ? { ...result, monteCarlo: { ...result.monteCarlo, samples: undefined } } : result;
+    },
+  },
+];
+
+/**
+ * JSON API over the simulation engines for one in-memory dataset. Errors are returned as
+ * `{ error: { code, message, details? } }` with a matching status: 400 for bad input,
+ * 404 for unknown merchants, plans and routes, 500 for anything else.
+ */
+export function createApiServer(dataset: Dataset): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const matching = ROUTES.filter(r => r.path === url.pathname);
+      if (matching.length === 0) {
+        throw new ApiError(404, "not_found", `No route for ${url.pathname}`);
+      }
+      const route = matching.find(r => r.method === req.method);
+      if (!route) {
+        res.setHeader("Allow", matching.map(r => r.method).join(", "));
+        throw new ApiError(405, "method_not_allowed", `${req.method} is not supported on ${url.pathname}`);
+      }
+      sendJson(res, 200, await route.handler(dataset, req, url));
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.status >= 500) {
+        console.error(`${req.method} ${url.pathname} failed:`, error);
+      }
+      const body: ApiErrorBody = {
+        error: { code: apiError.code, message: apiError.message, details: apiError.details },
+      };
+      sendJson(res, apiError.status, body);
+    }
+  });
+}
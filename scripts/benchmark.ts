@@ -0,0 +1,159 @@
+/**
+ * Compares the indexed event lookups in simulate() and simulateChurn() with the original scans over
+ * the full dataset arrays, on a large dataset made of relabelled copies of the sample data.
+ *
+ *   npm run bench -- [copies]   (default 40 copies)
+ */
+import { generateDataset } from '../src/data/generate';
+import { getDatasetIndex } from '../src/data/datasetIndex';
+import { selectPriceEvents, simulate } from '../src/lib/simulate';
+import { selectChurnEvents, simulateChurn, type ChurnSimulationInput } from '../src/lib/simulateChurn';
+import type { Dataset, Plan } from '../src/data/types';
+
+const DEFAULT_COPIES = 40;
+const SAMPLED_PLANS = 20;
+
+function buildLargeDataset(copies: number): Dataset {
+  const dataset: Dataset = {
+    merchants: [],
+    plans: [],
+    events: [],
+    cancellationEvents: [],
+    paymentFailureEvents: [],
+    pauseEvents: [],
+  };
+  for (let copy = 0; copy < copies; copy++) {
+    const source = generateDataset(copy + 1);
+    const relabel = (id: string) => `c${copy}_${id}`;
+    dataset.merchants.push(...source.merchants.map(m => ({ ...m, id: relabel(m.id) })));
+    dataset.plans.push(...source.plans.map(p => ({ ...p, id: relabel(p.id), merchantId: relabel(p.merchantId) })));
+    const relabelEvent = <T extends { id: string; merchantId: string; planId: string }>(e: T): T =>
+      ({ ...e, id: relabel(e.id), merchantId: relabel(e.merchantId), planId: relabel(e.planId) });
+    dataset.events.push(...source.events.map(relabelEvent));
+    dataset.cancellationEvents.push(...source.cancellationEvents.map(relabelEvent));
+    dataset.paymentFailureEvents.push(...source.paymentFailureEvents.map(relabelEvent));
+    dataset.pauseEvents.push(...source.pauseEvents.map(relabelEvent));
+  }
+  return dataset;
+}
+
+// Event selection as simulate() did it before the index: a plan lookup inside the scan over every event
+function legacySelectPriceEvents(dataset: Dataset, merchantId: string, plan: Plan) {
+  let merchantEvents = dataset.events.filter(e => {
+    const eventPlan = dataset.plans.find(p => p.id === e.planId);
+    return e.merchantId === merchantId && eventPlan?.interval === plan.interval;
+  });
+  const samePlanEvents = merchantEvents.filter(e => e.planId === plan.id);
+  if (samePlanEvents.length >= 3) {
+    merchantEvents = samePlanEvents;
+  }
+  const globalEvents = dataset.events.filter(e => {
+    const eventPlan = dataset.plans.find(p => p.id === e.planId);
+    return e.merchantId !== merchantId && eventPlan?.interval === plan.interval;
+  });
+  return { merchantEvents, globalEvents };
+}
+
+// Event selection as simulateChurn() did it before the index: repeated filters over the full arrays
+function legacySelectChurnEvents(dataset: Dataset, input: ChurnSimulationInput) {
+  const forPlan = <T extends { merchantId: string; planId: string }>(events: T[]) => [
+    ...events.filter(e => e.merchantId === input.merchantId && e.planId === input.planId),
+    ...events.filter(e => e.merchantId !== input.merchantId && e.planId === input.planId),
+  ];
+  const cancellationEvents = forPlan(dataset.cancellationEvents);
+  const paymentEvents = forPlan(dataset.paymentFailureEvents);
+  const pauseEvents = forPlan(dataset.pauseEvents);
+  return {
+    matchingCancellationEvents: cancellationEvents.filter(e =>
+      e.interventionType === input.leverA.type &&
+      (input.leverA.type !== "incentive" || e.incentiveStrength === input.leverA.incentiveStrength)
+    ),
+    baselineNoneEvents: cancellationEvents.filter(e => e.interventionType === "none"),
+    matchingPaymentEvents: paymentEvents.filter(e =>
+      e.retries === input.leverB.retries &&
+      e.retryWindowDays === input.leverB.retryWindowDays &&
+      e.fallbackEnabled === input.leverB.fallbackEnabled
+    ),
+    baselinePaymentEvents: paymentEvents.filter(e => e.retries === 3 && e.retryWindowDays === 7 && !e.fallbackEnabled),
+    leverCPauseEvents: pauseEvents.filter(e => e.pauseEnabled && e.pauseCycles <= input.leverC.maxPauseCycles),
+  };
+}
+
+// Average milliseconds per call of fn over every sampled plan
+function time(plans: Plan[], fn: (plan: Plan) => unknown): number {
+  const start = performance.now();
+  for (const plan of plans) fn(plan);
+  return (performance.now() - start) / plans.length;
+}
+
+function churnInput(plan: Plan): ChurnSimulationInput {
+  return {
+    merchantId: plan.merchantId,
+    planId: plan.id,
+    leverA: { type: "incentive", incentiveStrength: "medium" },
+    leverB: { retries: 5, retryWindowDays: 14, fallbackEnabled: true },
+    leverC: { pauseEnabled: true, maxPauseCycles: 2 },
+  };
+}
+
+function main() {
+  const copies = parseInt(process.argv[2] ?? "") || DEFAULT_COPIES;
+  const dataset = buildLargeDataset(copies);
+  console.log(
+    `Dataset: ${dataset.plans.length} plans, ${dataset.events.length} price events, ` +
+    `${dataset.cancellationEvents.length} cancellation, ${dataset.paymentFailureEvents.length} payment failure, ` +
+    `${dataset.pauseEvents.length} pause events`
+  );
+
+  const step = Math.max(1, Math.floor(dataset.plans.length / SAMPLED_PLANS));
+  const plans = dataset.plans.filter((_, i) => i % step === 0).slice(0, SAMPLED_PLANS);
+
+  const buildStart = performance.now();
+  const index = getDatasetIndex(dataset);
+  console.log(`Index build (once per dataset): ${(performance.now() - buildStart).toFixed(1)} ms\n`);
+
+  // Both paths must select the same events before their timings mean anything
+  for (const plan of plans) {
+    const legacy = legacySelectPriceEvents(dataset, plan.merchantId, plan);
+    const indexed = selectPriceEvents(index, { merchantId: plan.merchantId, planId: plan.id, useGlobalBenchmarks: true }, plan);
+    const legacyChurn = legacySelectChurnEvents(dataset, churnInput(plan));
+    const indexedChurn = selectChurnEvents(index, churnInput(plan));
+    const mismatch =
+      legacy.merchantEvents.length !== indexed.merchantEvents.length ||
+      legacy.globalEvents.length !== indexed.globalEvents.length ||
+      (Object.keys(legacyChurn) as (keyof typeof legacyChurn)[]).some(key => legacyChurn[key].length !== indexedChurn[key].length);
+    if (mismatch) {
+      throw new Error(`Indexed selection differs from the full scan for plan ${plan.id}`);
+    }
+  }
+
+  const rows: Array<[string, number, number]> = [
+    [
+      "simulate() event selection",
+      time(plans, plan => legacySelectPriceEvents(dataset, plan.merchantId, plan)),
+      time(plans, plan => selectPriceEvents(index, { merchantId: plan.merchantId, planId: plan.id, useGlobalBenchmarks: true }, plan)),
+    ],
+    [
+      "simulateChurn() event selection",
+      time(plans, plan => legacySelectChurnEvents(dataset, churnInput(plan))),
+      time(plans, plan => selectChurnEvents(index, churnInput(plan))),
+    ],
+  ];
+
+  console.log("Per call, averaged over", plans.length, "plans:");
+  for (const [label, legacyMs, indexedMs] of rows) {
+    console.log(`  ${label.padEnd(34)} full scan ${legacyMs.toFixed(2).padStart(9)} ms   indexed ${indexedMs.toFixed(3).padStart(8)} ms   (${(legacyMs / indexedMs).toFixed(0)}x)`);
+  }
+
+  const simulateMs = time(plans, plan => simulate(dataset, {
+    merchantId: plan.merchantId,
+    planId: plan.id,
+    newPriceMonthly: plan.currentPriceMonthly * 1.1,
+    useGlobalBenchmarks: true,
+    bootstrap: { iterations: 0 },
+  }));
+  const simulateChurnMs = time(plans, plan => simulateChurn(dataset, churnInput(plan)));
+  console.log(`\nFull runs with the index: simulate() ${simulateMs.toFixed(2)} ms, simulateChurn() ${simulateChurnMs.toFixed(2)} ms`);
+}
+
+main();
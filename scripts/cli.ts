@@ -0,0 +1,368 @@
+/**
+ * Run the simulation engines from the terminal.
+ *
+ *   npm run cli -- simulate --merchant m_test --plan <planId> --price 12.99 [--global]
+ *   npm run cli -- optimize --merchant m_test --plan <planId> [--min-change -0.5 --max-change 1 --steps 50]
+ *   npm run cli -- churn --merchant m_test --plan <planId> --intervention incentive --strength medium --retries 5
+ *   npm run cli -- batch scenarios.json [--out results.csv]
+ *   npm run cli -- plans [--merchant m_test]
+ *
+ * Every command takes --dataset <file.json> or --seed <n> (default: the built-in sample data) and
+ * --format table|json|csv.
+ */
+import { writeFileSync, readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { simulate, findOptimalPriceFor, type SimulationResult, type PriceOptimizationResult } from '../src/lib/simulate';
+import { simulateChurn, type ChurnSimulationResult, type LeverStage } from '../src/lib/simulateChurn';
+import { simulationInputSchema, priceOptimizationInputSchema, churnSimulationInputSchema, formatIssues } from '../src/lib/inputSchemas';
+import type { Dataset } from '../src/data/types';
+import { loadDataset, parseSeedFlag, requireMerchant, requirePlan } from './loadDataset';
+
+type OutputFormat = "table" | "json" | "csv";
+type Row = Record<string, string | number | boolean | undefined>;
+
+const scenarioSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("simulate"), name: z.string().optional(), input: simulationInputSchema }),
+  z.object({ type: z.literal("optimize"), name: z.string().optional(), input: priceOptimizationInputSchema }),
+  z.object({ type: z.literal("churn"), name: z.string().optional(), input: churnSimulationInputSchema }),
+]);
+
+type Scenario = z.infer<typeof scenarioSchema>;
+
+const USAGE = `Usage: npm run cli -- <simulate|optimize|churn|batch|plans> [options]
+
+Dataset:     --dataset <file.json> | --seed <n>
+Output:      --format table|json|csv   --out <file>
+simulate:    --merchant <id> --plan <id> --price <monthly> [--global] [--estimator nearestNeighbor|curveFit]
+             [--half-life <days>] [--discount-rate <0-1>] [--rollout all|grandfather|newSignupsOnly|phased]
+             [--bootstrap <iterations>]
+optimize:    --merchant <id> --plan <id> [--global] [--estimator ...] [--min-change -0.5] [--max-change 1] [--steps 50]
+churn:       --merchant <id> --plan <id> [--intervention none|survey|pause|incentive] [--strength light|medium|heavy]
+             [--retries 3] [--retry-window 7] [--fallback] [--pause] [--max-pause-cycles 1] [--monte-carlo <iterations>]
+batch:       <scenarios.json>  JSON array of { "name"?, "type": "simulate"|"optimize"|"churn", "input": {...} }
+plans:       [--merchant <id>]`;
+
+const OPTIONS = {
+  dataset: { type: "string" },
+  seed: { type: "string" },
+  format: { type: "string" },
+  out: { type: "string" },
+  merchant: { type: "string" },
+  plan: { type: "string" },
+  price: { type: "string" },
+  global: { type: "boolean" },
+  estimator: { type: "string" },
+  "half-life": { type: "string" },
+  "discount-rate": { type: "string" },
+  rollout: { type: "string" },
+  bootstrap: { type: "string" },
+  "min-change": { type: "string" },
+  "max-change": { type: "string" },
+  steps: { type: "string" },
+  intervention: { type: "string" },
+  strength: { type: "string" },
+  retries: { type: "string" },
+  "retry-window": { type: "string" },
+  fallback: { type: "boolean" },
+  pause: { type: "boolean" },
+  "max-pause-cycles": { type: "string" },
+  "monte-carlo": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+// Optional numeric flag; invalid numbers are left as NaN for the schema to report
+function numberFlag(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function parseInput<T>(schema: z.ZodType<T, unknown>, raw: unknown): T {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid arguments: ${formatIssues(result.error).join("; ")}`);
+  }
+  return result.data;
+}
+
+function simulationInputFromFlags(flags: Flags) {
+  return parseInput(simulationInputSchema, {
+    merchantId: flags.merchant,
+    planId: flags.plan,
+    newPriceMonthly: numberFlag(flags.price),
+    useGlobalBenchmarks: flags.global ?? false,
+    estimator: flags.estimator,
+    recencyHalfLifeDays: numberFlag(flags["half-life"]),
+    annualDiscountRate: numberFlag(flags["discount-rate"]),
+    rollout: flags.rollout ? { mode: flags.rollout } : undefined,
+    bootstrap: flags.bootstrap !== undefined ? { iterations: numberFlag(flags.bootstrap) } : undefined,
+  });
+}
+
+function optimizationInputFromFlags(flags: Flags) {
+  const minChange = numberFlag(flags["min-change"]);
+  const maxChange = numberFlag(flags["max-change"]);
+  return parseInput(priceOptimizationInputSchema, {
+    merchantId: flags.merchant,
+    planId: flags.plan,
+    useGlobalBenchmarks: flags.global ?? false,
+    estimator: flags.estimator,
+    recencyHalfLifeDays: numberFlag(flags["half-life"]),
+    priceRange: minChange !== undefined || maxChange !== undefined ? [minChange ?? -0.5, maxChange ?? 1.0] : undefined,
+    steps: numberFlag(flags.steps),
+  });
+}
+
+function churnInputFromFlags(flags: Flags) {
+  return parseInput(churnSimulationInputSchema, {
+    merchantId: flags.merchant,
+    planId: flags.plan,
+    leverA: { type: flags.intervention ?? "none", incentiveStrength: flags.strength },
+    leverB: {
+      retries: numberFlag(flags.retries) ?? 3,
+      retryWindowDays: numberFlag(flags["retry-window"]) ?? 7,
+      fallbackEnabled: flags.fallback ?? false,
+    },
+    leverC: {
+      pauseEnabled: flags.pause ?? false,
+      maxPauseCycles: numberFlag(flags["max-pause-cycles"]) ?? 1,
+    },
+    monteCarlo: flags["monte-carlo"] !== undefined ? { iterations: numberFlag(flags["monte-carlo"]) } : undefined,
+  });
+}
+
+function simulationRow(result: SimulationResult): Row {
+  return {
+    merchantId: result.inputs.merchantId,
+    planId: result.inputs.planId,
+    newPriceMonthly: result.inputs.newPriceMonthly,
+    estimator: result.estimator,
+    baselineChurn90d: result.baselineChurn90d,
+    expectedChurn90d: result.expectedChurn90d,
+    netMRRDelta: result.netMRRDelta,
+    netARRDelta: result.netARRDelta,
+    rangeLow: result.rangeLow,
+    rangeHigh: result.rangeHigh,
+    ltvDeltaPerSub: result.ltv.ltvDeltaPerSub ?? undefined,
+    evidenceCount: result.evidenceCount,
+    confidence: result.confidence,
+  };
+}
+
+function optimizationRow(merchantId: string, planId: string, result: PriceOptimizationResult): Row {
+  return {
+    merchantId,
+    planId,
+    currentPrice: result.currentPrice,
+    optimalPrice: result.optimalPrice,
+    optimalARRImpact: result.optimalARRImpact,
+    optimalChurnPrice: result.optimalChurnPrice,
+    optimalChurn90d: result.optimalChurn90d,
+    optimalChurnARRImpact: result.optimalChurnARRImpact,
+  };
+}
+
+// Blank when the lever isn't part of the configuration
+const savedByStage = (result: ChurnSimulationResult, stage: LeverStage) =>
+  result.leverContributions.find(c => c.stage === stage)?.savedSubs;
+
+function churnRow(merchantId: string, planId: string, result: ChurnSimulationResult): Row {
+  return {
+    merchantId,
+    planId,
+    savedSubs: result.savedSubs,
+    grossRecoveredARR: result.grossRecoveredARR,
+    incentiveCost: result.incentiveCost,
+    recoveredMRR: result.recoveredMRR,
+    recoveredARR: result.recoveredARR,
+    rangeLow: result.rangeLow,
+    rangeHigh: result.rangeHigh,
+    churnReductionPp: result.churnReductionPp,
+    savedCancelFlow: savedByStage(result, "cancelFlow"),
+    savedPause: savedByStage(result, "pause"),
+    savedIncentive: savedByStage(result, "incentive"),
+    savedDunning: savedByStage(result, "dunning"),
+    confidence: result.confidence,
+    warnings: result.warnings.join(" "),
+  };
+}
+
+function runScenario(dataset: Dataset, scenario: Scenario): { row: Row; result: unknown } {
+  requirePlan(dataset, scenario.input.merchantId, scenario.input.planId);
+  switch (scenario.type) {
+    case "simulate": {
+      const result = simulate(dataset, scenario.input);
+      return { row: simulationRow(result), result };
+    }
+    case "optimize": {
+      const result = findOptimalPriceFor(dataset, scenario.input);
+      return { row: optimizationRow(scenario.input.merchantId, scenario.input.planId, result), result };
+    }
+    case "churn": {
+      const result = simulateChurn(dataset, scenario.input);
+      return { row: churnRow(scenario.input.merchantId, scenario.input.planId, result), result };
+    }
+  }
+}
+
+function formatCell(value: Row[string]): string {
+  if (value === undefined) return "";
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/\.?0+$/, "");
+  return String(value);
+}
+
+// Union of the rows' fields in first-seen order, with any error column last
+function columnsOf(rows: Row[]): string[] {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return columns.includes("error") ? [...columns.filter(c => c !== "error"), "error"] : columns;
+}
+
+function formatTable(rows: Row[]): string {
+  const columns = columnsOf(rows);
+  const cells = [columns, ...rows.map(row => columns.map(column => formatCell(row[column])))];
+  const widths = columns.map((_, i) => Math.max(...cells.map(line => line[i].length)));
+  const lines = cells.map(line => line.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+  lines.splice(1, 0, widths.map(width => "-".repeat(width)).join("  "));
+  return lines.join("\n");
+}
+
+// A single result reads better as one field per line
+function formatRecord(row: Row): string {
+  const width = Math.max(...Object.keys(row).map(key => key.length));
+  return Object.entries(row).map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`).join("\n");
+}
+
+function formatCsv(rows: Row[]): string {
+  const columns = columnsOf(rows);
+  const escape = (cell: string) => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return [columns, ...rows.map(row => columns.map(column => formatCell(row[column])))]
+    .map(line => line.map(escape).join(","))
+    .join("\n");
+}
+
+function outputFormat(flags: Flags): OutputFormat {
+  const format = flags.format ?? (flags.out ? extname(flags.out).slice(1) : "table");
+  if (format !== "table" && format !== "json" && format !== "csv") {
+    throw new Error(`Unknown format "${format}" (expected table, json or csv)`);
+  }
+  return format;
+}
+
+function emit(flags: Flags, text: string) {
+  if (flags.out) {
+    writeFileSync(flags.out, text + "\n");
+    console.error(`Wrote ${flags.out}`);
+  } else {
+    console.log(text);
+  }
+}
+
+function runSingle(flags: Flags, dataset: Dataset, scenario: Scenario) {
+  const { row, result } = runScenario(dataset, scenario);
+  const format = outputFormat(flags);
+  emit(flags, format === "json" ? JSON.stringify(result, null, 2) : format === "csv" ? formatCsv([row]) : formatRecord(row));
+}
+
+function runBatch(flags: Flags, dataset: Dataset, scenariosPath: string) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(scenariosPath, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read scenarios file ${scenariosPath}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(raw)) {
+    throw new Error("Scenarios file must contain a JSON array");
+  }
+
+  // Each scenario gets one row; failures are reported in the row instead of stopping the batch
+  let failures = 0;
+  const rows: Row[] = raw.map((entry: unknown, index) => {
+    const parsed = scenarioSchema.safeParse(entry);
+    // Identify failed rows from the raw entry, since it may not have parsed
+    const rawEntry = (typeof entry === "object" && entry !== null ? entry : {}) as Record<string, unknown>;
+    const rawInput = (typeof rawEntry.input === "object" && rawEntry.input !== null ? rawEntry.input : {}) as Record<string, unknown>;
+    const base: Row = {
+      scenario: typeof rawEntry.name === "string" ? rawEntry.name : `scenario ${index + 1}`,
+      type: typeof rawEntry.type === "string" ? rawEntry.type : undefined,
+    };
+    try {
+      if (!parsed.success) {
+        throw new Error(formatIssues(parsed.error).join("; "));
+      }
+      return { ...base, ...runScenario(dataset, parsed.data).row, error: "" };
+    } catch (error) {
+      failures++;
+      return {
+        ...base,
+        merchantId: String(rawInput.merchantId ?? ""),
+        planId: String(rawInput.planId ?? ""),
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  const format = outputFormat(flags);
+  emit(flags, format === "json" ? JSON.stringify(rows, null, 2) : format === "csv" ? formatCsv(rows) : formatTable(rows));
+  if (failures > 0) {
+    console.error(`${failures} of ${rows.length} scenarios failed`);
+    process.exitCode = 1;
+  }
+}
+
+function listPlans(flags: Flags, dataset: Dataset) {
+  if (flags.merchant) requireMerchant(dataset, flags.merchant);
+  const rows: Row[] = dataset.plans
+    .filter(plan => !flags.merchant || plan.merchantId === flags.merchant)
+    .map(plan => ({
+      merchantId: plan.merchantId,
+      planId: plan.id,
+      name: plan.name,
+      interval: plan.interval,
+      currentPriceMonthly: plan.currentPriceMonthly,
+      activeSubs: plan.activeSubs,
+      baselineChurn90d: plan.baselineChurn90d,
+    }));
+  const format = outputFormat(flags);
+  emit(flags, format === "json" ? JSON.stringify(rows, null, 2) : format === "csv" ? formatCsv(rows) : formatTable(rows));
+}
+
+function main() {
+  const { values: flags, positionals } = parseArgs({ options: OPTIONS, allowPositionals: true });
+  const [command, ...rest] = positionals;
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  let seed: number | undefined;
+  try {
+    seed = parseSeedFlag(flags.seed);
+  } catch (error) {
+    throw new Error(`${(error as Error).message}\n\n${USAGE}`);
+  }
+  const dataset = loadDataset({ datasetPath: flags.dataset, seed });
+  switch (command) {
+    case "simulate":
+      return runSingle(flags, dataset, { type: "simulate", input: simulationInputFromFlags(flags) });
+    case "optimize":
+      return runSingle(flags, dataset, { type: "optimize", input: optimizationInputFromFlags(flags) });
+    case "churn":
+      return runSingle(flags, dataset, { type: "churn", input: churnInputFromFlags(flags) });
+    case "batch":
+      if (!rest[0]) throw new Error("batch needs a scenarios file");
+      return runBatch(flags, dataset, rest[0]);
+    case "plans":
+      return listPlans(flags, dataset);
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
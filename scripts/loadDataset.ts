@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs';
+import { generateDataset } from '../src/data/generate';
+import { SAMPLE_SEED } from '../src/data/sampleData';
+import { parseDataset } from '../src/data/schema';
+import type { Dataset } from '../src/data/types';
+
+// --seed must be a whole number; anything else would generate a meaningless NaN-seeded dataset
+export function parseSeedFlag(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const seed = Number(value);
+  if (value.trim() === "" || !Number.isInteger(seed)) {
+    throw new Error(`Invalid --seed "${value}": expected an integer`);
+  }
+  return seed;
+}
+
+/**
+ * Dataset for the Node entry points: a JSON file saved from the Data page (any schema version),
+ * or generated sample data for a seed. Defaults to the app's built-in sample data.
+ */
+export function loadDataset(options: { datasetPath?: string; seed?: number }): Dataset {
+  if (options.datasetPath) {
+    return parseDataset(readFileSync(options.datasetPath, "utf8"));
+  }
+  return generateDataset(options.seed ?? SAMPLE_SEED);
+}
+
+export function requireMerchant(dataset: Dataset, merchantId: string) {
+  if (!dataset.merchants.some(m => m.id === merchantId)) {
+    throw new Error(`Merchant not found: ${merchantId}`);
+  }
+}
+
+// The engines look plans up by id alone, so a plan under another merchant would be simulated with the
+// wrong merchant's events; report it as missing instead
+export function requirePlan(dataset: Dataset, merchantId: string, planId: string) {
+  requireMerchant(dataset, merchantId);
+  const plan = dataset.plans.find(p => p.id === planId);
+  if (!plan || plan.merchantId !== merchantId) {
+    throw new Error(`Plan not found for merchant ${merchantId}: ${planId}`);
+  }
+}
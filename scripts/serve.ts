@@ -0,0 +1,38 @@
+/**
+ * Serve the simulation API locally.
+ *
+ *   npm run serve -- [--dataset <file.json> | --seed <n>] [--port 3001] [--host 127.0.0.1]
+ */
+import { parseArgs } from 'node:util';
+import { createApiServer } from './api';
+import { loadDataset, parseSeedFlag } from './loadDataset';
+
+const DEFAULT_PORT = 3001;
+// Local only by default; pass --host 0.0.0.0 to expose it on the network
+const DEFAULT_HOST = "127.0.0.1";
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string" },
+      seed: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+    },
+  });
+
+  const dataset = loadDataset({ datasetPath: values.dataset, seed: parseSeedFlag(values.seed) });
+  const port = values.port ? Number(values.port) : DEFAULT_PORT;
+  const host = values.host ?? DEFAULT_HOST;
+
+  createApiServer(dataset).listen(port, host, () => {
+    console.log(`Simulation API listening on http://${host}:${port} (${dataset.merchants.length} merchants, ${dataset.plans.length} plans)`);
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
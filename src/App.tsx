@@ -4,6 +4,9 @@ import { HomePage } from './pages/HomePage';
 import { DataPage } from './pages/DataPage';
 import { SimulatePage } from './pages/SimulatePage';
 import { ChurnSimulationPage } from './pages/ChurnSimulationPage';
+import { PortfolioPage } from './pages/PortfolioPage';
+import { ScenariosPage } from './pages/ScenariosPage';
+import { SurvivalPage } from './pages/SurvivalPage';
 import { NotFound } from './pages/NotFound';
 
 function App() {
@@ -16,6 +19,9 @@ function App() {
           <Route path="/data" element={<DataPage />} />
           <Route path="/simulate" element={<SimulatePage />} />
           <Route path="/churn" element={<ChurnSimulationPage />} />
+          <Route path="/portfolio" element={<PortfolioPage />} />
+          <Route path="/scenarios" element={<ScenariosPage />} />
+          <Route path="/survival" element={<SurvivalPage />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </main>
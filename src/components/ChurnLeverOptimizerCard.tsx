@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { AGGRESSIVE_PENALTY, type ChurnLeverOptimizationResult } from '../lib/optimizeChurn';
+import type { IncentiveTermsByStrength, LeverConfig } from '../lib/simulateChurn';
+import { formatCurrency, formatNumber, formatPercent } from '../lib/utils';
+import { useSimulationWorker } from '../workers/useSimulationWorker';
+import { isJobCancelled } from '../workers/simulationClient';
+import type { Dataset } from '../data/types';
+
+interface ChurnLeverOptimizerCardProps {
+  dataset: Dataset;
+  merchantId: string;
+  planId: string;
+  incentiveTerms: IncentiveTermsByStrength;
+  onApply: (config: LeverConfig) => void;
+}
+
+const TOP_N_OPTIONS = [5, 10, 20];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function describeLeverA({ leverA }: LeverConfig): string {
+  if (leverA.type === "incentive") return `Incentive (${leverA.incentiveStrength ?? "none"})`;
+  return capitalize(leverA.type);
+}
+
+function describeLeverB({ leverB }: LeverConfig): string {
+  return `${leverB.retries} retries / ${leverB.retryWindowDays}d${leverB.fallbackEnabled ? " + fallback" : ""}`;
+}
+
+function describeLeverC({ leverC }: LeverConfig): string {
+  return leverC.pauseEnabled ? `Up to ${leverC.maxPauseCycles} cycle${leverC.maxPauseCycles > 1 ? "s" : ""}` : "Off";
+}
+
+export function ChurnLeverOptimizerCard({ dataset, merchantId, planId, incentiveTerms, onApply }: ChurnLeverOptimizerCardProps) {
+  const [topN, setTopN] = useState(10);
+  const [minEventsPerLever, setMinEventsPerLever] = useState("5");
+  const [result, setResult] = useState<ChurnLeverOptimizationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const simulationWorker = useSimulationWorker();
+
+  const runOptimizer = async () => {
+    simulationWorker.cancel();
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      setResult(await simulationWorker.run(
+        dataset,
+        "optimizeChurnLevers",
+        {
+          merchantId,
+          planId,
+          topN,
+          minEventsPerLever: Math.max(parseInt(minEventsPerLever) || 0, 0),
+          incentiveTerms,
+        },
+        (completed, total) => setProgress(completed / total)
+      ));
+      setIsRunning(false);
+    } catch (error) {
+      // A cancelled run was superseded by a new one, which owns the running state
+      if (isJobCancelled(error)) return;
+      console.error("Churn lever optimization error:", error);
+      setResult(null);
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card title="Lever Optimizer">
+      <p className="text-sm text-slate-600 mb-5">
+        Searches every intervention, dunning and pause combination and ranks them by recovered ARR net of incentive cost.
+        Aggressive configurations give up {formatPercent(AGGRESSIVE_PENALTY, 0)} of their net ARR in the ranking.
+      </p>
+      <div className="grid grid-cols-2 gap-4 mb-5">
+        <div>
+          <label className="block text-xs font-semibold text-slate-600 mb-1.5">
+            Configurations shown
+          </label>
+          <Select
+            value={String(topN)}
+            onChange={(e) => {
+              setTopN(parseInt(e.target.value));
+              setResult(null);
+            }}
+          >
+            {TOP_N_OPTIONS.map(n => (
+              <option key={n} value={n}>Top {n}</option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-600 mb-1.5">
+            Min comparable events per lever
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={minEventsPerLever}
+            onChange={(e) => {
+              setMinEventsPerLever(e.target.value);
+              setResult(null);
+            }}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+          />
+        </div>
+      </div>
+
+      <Button onClick={runOptimizer} disabled={!planId || isRunning}>
+        {isRunning ? `Searching... ${formatPercent(progress, 0)}` : "Find Best Levers"}
+      </Button>
+
+      {result && (
+        <div className="mt-6 pt-5 border-t border-slate-200">
+          <p className="text-xs text-slate-500 mb-3">
+            {formatNumber(result.evaluated)} configurations evaluated
+            {result.insufficientEvidence > 0 && `, ${formatNumber(result.insufficientEvidence)} skipped for too few comparable events`}
+          </p>
+          {result.candidates.length === 0 ? (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              No configuration has enough comparable events. Lower the minimum and try again.
+            </div>
+          ) : (
+            <div className="overflow-x-auto -mx-6 px-6">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">#</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Intervention</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Dunning</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Pause</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Net ARR</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Incentive Cost</th>
+                    <th className="px-3 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Confidence</th>
+                    <th className="px-3 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {result.candidates.map((candidate, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-3 text-sm text-slate-500">{i + 1}</td>
+                      <td className="px-3 py-3 text-sm text-slate-900 font-medium">{describeLeverA(candidate.config)}</td>
+                      <td className="px-3 py-3 text-sm text-slate-900">{describeLeverB(candidate.config)}</td>
+                      <td className="px-3 py-3 text-sm text-slate-900">{describeLeverC(candidate.config)}</td>
+                      <td className="px-3 py-3 text-sm text-slate-900">
+                        {formatCurrency(candidate.netRecoveredARR)}
+                        {candidate.aggressive && (
+                          <div className="mt-1">
+                            <Badge variant="warning">Aggressive</Badge>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 text-sm text-slate-900">{formatCurrency(candidate.incentiveCost)}</td>
+                      <td className="px-3 py-3 text-sm">
+                        <Badge variant={candidate.confidence === "High" ? "success" : candidate.confidence === "Med" ? "warning" : "danger"}>
+                          {candidate.confidence}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-3 text-sm text-right">
+                        <Button variant="outline" onClick={() => onApply(candidate.config)}>
+                          Apply
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
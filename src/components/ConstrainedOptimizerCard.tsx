@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+import { Badge } from './ui/Badge';
+import { CONSTRAINT_LABELS, type OptimizerObjective, type OptimizerConstraints, type PriceOptimizerResult, type ConstraintId } from '../lib/optimize';
+import { formatCurrency, formatCurrencyWithCents, formatNumber, formatPercent, formatPercentChange } from '../lib/utils';
+import type { PriceEstimator } from '../lib/simulate';
+import type { RolloutOptions } from '../lib/rollout';
+import type { RenewalDistribution } from '../lib/projection';
+import { useSimulationWorker } from '../workers/useSimulationWorker';
+import { isJobCancelled } from '../workers/simulationClient';
+import type { Dataset } from '../data/types';
+
+interface ConstrainedOptimizerCardProps {
+  dataset: Dataset;
+  merchantId: string;
+  planId: string;
+  useGlobalBenchmarks: boolean;
+  estimator: PriceEstimator;
+  recencyHalfLifeDays?: number;
+  rollout: RolloutOptions;
+  renewalDistribution: RenewalDistribution;
+}
+
+// Inputs are kept as strings in display units (percent, dollars, subscribers); blank = no constraint
+type ConstraintInputs = Record<ConstraintId, string>;
+
+const EMPTY_CONSTRAINTS: ConstraintInputs = {
+  maxChurnIncrease: "2",
+  minSubscribers: "",
+  maxPriceChangePct: "30",
+  priceFloor: "",
+  minARRDelta: "",
+};
+
+const CONSTRAINT_UNITS: Record<ConstraintId, string> = {
+  maxChurnIncrease: "pp",
+  minSubscribers: "subs",
+  maxPriceChangePct: "%",
+  priceFloor: "$/mo",
+  minARRDelta: "$/yr",
+};
+
+function parseConstraints(inputs: ConstraintInputs): OptimizerConstraints {
+  const parsed: OptimizerConstraints = {};
+  for (const id of Object.keys(inputs) as ConstraintId[]) {
+    const value = parseFloat(inputs[id]);
+    if (isNaN(value)) continue;
+    // Percent inputs are converted to fractions
+    parsed[id] = id === "maxChurnIncrease" || id === "maxPriceChangePct" ? value / 100 : value;
+  }
+  return parsed;
+}
+
+function formatConstraintValue(id: ConstraintId, value: number): string {
+  if (isNaN(value)) return '-';
+  switch (id) {
+    case "maxChurnIncrease": return formatPercentChange(value);
+    case "maxPriceChangePct": return formatPercent(value);
+    case "minSubscribers": return formatNumber(Math.round(value));
+    case "priceFloor": return formatCurrencyWithCents(value);
+    case "minARRDelta": return formatCurrency(value);
+  }
+}
+
+export function ConstrainedOptimizerCard({
+  dataset,
+  merchantId,
+  planId,
+  useGlobalBenchmarks,
+  estimator,
+  recencyHalfLifeDays,
+  rollout,
+  renewalDistribution,
+}: ConstrainedOptimizerCardProps) {
+  const [objective, setObjective] = useState<OptimizerObjective>("maxARR");
+  const [constraintInputs, setConstraintInputs] = useState<ConstraintInputs>(EMPTY_CONSTRAINTS);
+  const [charmPricing, setCharmPricing] = useState(false);
+  const [result, setResult] = useState<PriceOptimizerResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const simulationWorker = useSimulationWorker();
+
+  const runOptimizer = async () => {
+    simulationWorker.cancel();
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      setResult(await simulationWorker.run(
+        dataset,
+        "optimizePrice",
+        {
+          merchantId,
+          planId,
+          useGlobalBenchmarks,
+          estimator,
+          recencyHalfLifeDays,
+          rollout,
+          renewalDistribution,
+          objective,
+          constraints: parseConstraints(constraintInputs),
+          charmPricing,
+        },
+        (completed, total) => setProgress(completed / total)
+      ));
+      setIsRunning(false);
+    } catch (error) {
+      // A cancelled run was superseded by a new one, which owns the running state
+      if (isJobCancelled(error)) return;
+      console.error("Constrained optimization error:", error);
+      setResult(null);
+      setIsRunning(false);
+    }
+  };
+
+  const toChartPoint = (p: PriceOptimizerResult["evaluated"][number]) => ({
+    churn: p.expectedChurn90d * 100,
+    arr: p.netARRDelta,
+    price: p.price,
+  });
+
+  return (
+    <Card title="Constrained Optimizer">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-5">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+            Objective
+          </label>
+          <Select
+            value={objective}
+            onChange={(e) => {
+              setObjective(e.target.value as OptimizerObjective);
+              setResult(null);
+            }}
+          >
+            <option value="maxARR">Maximize ARR</option>
+            <option value="minChurn">Minimize churn</option>
+          </Select>
+        </div>
+        {(Object.keys(CONSTRAINT_LABELS) as ConstraintId[]).map(id => (
+          <div key={id}>
+            <label className="block text-xs font-semibold text-slate-600 mb-1.5">
+              {CONSTRAINT_LABELS[id]} ({CONSTRAINT_UNITS[id]})
+            </label>
+            <input
+              type="number"
+              value={constraintInputs[id]}
+              onChange={(e) => {
+                setConstraintInputs(prev => ({ ...prev, [id]: e.target.value }));
+                setResult(null);
+              }}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 placeholder:text-slate-400"
+              placeholder="No limit"
+            />
+          </div>
+        ))}
+        <div className="flex items-end">
+          <label className="flex items-center space-x-3 cursor-pointer pb-2">
+            <input
+              type="checkbox"
+              checked={charmPricing}
+              onChange={(e) => {
+                setCharmPricing(e.target.checked);
+                setResult(null);
+              }}
+              className="w-4 h-4 text-primary-600 border-slate-300 rounded focus:ring-primary-500 focus:ring-2"
+            />
+            <span className="text-sm font-semibold text-slate-700">Charm prices (.99)</span>
+          </label>
+        </div>
+      </div>
+
+      <Button onClick={runOptimizer} disabled={!planId || isRunning}>
+        {isRunning ? `Optimizing... ${formatPercent(progress, 0)}` : "Run Optimizer"}
+      </Button>
+
+      {result && (
+        <div className="mt-6 pt-5 border-t border-slate-200 space-y-5">
+          {result.optimal ? (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-emerald-50 rounded-lg border border-emerald-200/60 p-3 text-center">
+                <div className="text-xs text-slate-600 font-semibold uppercase tracking-wide mb-1">Optimal Price</div>
+                <div className="text-xl font-bold text-emerald-700">{formatCurrencyWithCents(result.optimal.price)}</div>
+                <div className="text-xs text-slate-500">{formatPercentChange(result.optimal.pctChange)} vs current</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg border border-slate-200/60 p-3 text-center">
+                <div className="text-xs text-slate-600 font-semibold uppercase tracking-wide mb-1">ARR Impact</div>
+                <div className={`text-xl font-bold ${result.optimal.netARRDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>{formatCurrency(result.optimal.netARRDelta)}</div>
+              </div>
+              <div className="bg-slate-50 rounded-lg border border-slate-200/60 p-3 text-center">
+                <div className="text-xs text-slate-600 font-semibold uppercase tracking-wide mb-1">Churn (90d)</div>
+                <div className="text-xl font-bold text-slate-900">{formatPercent(result.optimal.expectedChurn90d)}</div>
+                <div className="text-xs text-slate-500">{formatPercentChange(result.optimal.churnIncrease)}</div>
+              </div>
+            </div>
+          ) : (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              No price in the search range satisfies every constraint. Relax one of the limits and try again.
+            </div>
+          )}
+
+          {result.constraints.length > 0 && (
+            <div className="overflow-x-auto -mx-6 px-6">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Constraint</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Limit</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">At Optimum</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {result.constraints.map(c => (
+                    <tr key={c.id}>
+                      <td className="px-4 py-3 text-sm text-slate-900 font-medium">{CONSTRAINT_LABELS[c.id]}</td>
+                      <td className="px-4 py-3 text-sm text-slate-900">{formatConstraintValue(c.id, c.limit)}</td>
+                      <td className="px-4 py-3 text-sm text-slate-900">{formatConstraintValue(c.id, c.value)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <Badge variant={c.binding ? "warning" : "success"}>{c.binding ? "Binding" : "Slack"}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold text-slate-900 mb-3 text-base">ARR vs Churn (Pareto Frontier)</h4>
+            <ResponsiveContainer width="100%" height={300}>
+              <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis
+                  type="number"
+                  dataKey="churn"
+                  name="Churn (90d)"
+                  tickFormatter={(value) => `${value.toFixed(1)}%`}
+                  tick={{ fill: '#64748b', fontSize: 12 }}
+                  axisLine={{ stroke: '#cbd5e1' }}
+                  domain={['auto', 'auto']}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="arr"
+                  name="ARR Impact"
+                  tickFormatter={(value) => formatCurrency(value)}
+                  tick={{ fill: '#64748b', fontSize: 12 }}
+                  axisLine={{ stroke: '#cbd5e1' }}
+                />
+                <ZAxis type="number" dataKey="price" name="Price" range={[40, 40]} />
+                <Tooltip
+                  formatter={(value: number | undefined, name: string | undefined) => {
+                    if (value === undefined) return '';
+                    if (name === "Churn (90d)") return `${value.toFixed(2)}%`;
+                    if (name === "Price") return formatCurrencyWithCents(value);
+                    return formatCurrency(value);
+                  }}
+                  contentStyle={{
+                    backgroundColor: 'white',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 16px 0 rgba(0, 0, 0, 0.08)'
+                  }}
+                />
+                <Legend />
+                <Scatter
+                  name="Infeasible"
+                  data={result.evaluated.filter(p => p.violations.length > 0).map(toChartPoint)}
+                  fill="#cbd5e1"
+                />
+                <Scatter
+                  name="Feasible"
+                  data={result.evaluated.filter(p => p.violations.length === 0).map(toChartPoint)}
+                  fill="#93c5fd"
+                />
+                <Scatter
+                  name="Pareto frontier"
+                  data={[...result.frontier].sort((a, b) => a.expectedChurn90d - b.expectedChurn90d).map(toChartPoint)}
+                  fill="#10b981"
+                  line={{ stroke: '#10b981', strokeWidth: 2 }}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-slate-500 mt-2">
+              {formatNumber(result.evaluated.length)} prices evaluated. Frontier points can't be beaten on ARR without adding churn.
+            </p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { importDatasetFromCsv, CSV_TABLES, CSV_TABLE_LABELS, type CsvTable, type CsvImportResult } from '../data/importCsv';
+import { formatNumber } from '../lib/utils';
+import type { Dataset } from '../data/types';
+
+// Keep the error table readable for badly broken files
+const MAX_ERRORS_SHOWN = 50;
+
+interface CsvImportCardProps {
+  onImport: (name: string, dataset: Dataset) => void;
+}
+
+export function CsvImportCard({ onImport }: CsvImportCardProps) {
+  const [name, setName] = useState<string>("");
+  const [files, setFiles] = useState<Partial<Record<CsvTable, File>>>({});
+  const [report, setReport] = useState<CsvImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const texts: Partial<Record<CsvTable, string>> = {};
+      for (const table of CSV_TABLES) {
+        const file = files[table];
+        if (file) texts[table] = await file.text();
+      }
+
+      const result = importDatasetFromCsv(texts);
+      setReport(result);
+
+      // Only register datasets the simulators can actually run against
+      if (result.dataset.merchants.length > 0 && result.dataset.plans.length > 0) {
+        onImport(name.trim() || "Imported data", result.dataset);
+      }
+    } catch (error) {
+      console.error("CSV import error:", error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport = !!files.merchants && !!files.plans && !isImporting;
+  const wasImported = report !== null && report.dataset.merchants.length > 0 && report.dataset.plans.length > 0;
+
+  return (
+    <Card title="Import CSV" className="mb-6">
+      <p className="text-sm text-slate-600 mb-5">
+        Upload one CSV per table. Header names must match the field names in the data model
+        (e.g. <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">id,merchantId,name,interval,...</code>).
+        Merchants and plans are required; event files are optional.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-5">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+            Dataset Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 transition-all duration-200 hover:border-slate-400 placeholder:text-slate-400"
+            placeholder="Imported data"
+          />
+        </div>
+        {CSV_TABLES.map(table => (
+          <div key={table}>
+            <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+              {CSV_TABLE_LABELS[table]}
+              {(table === "merchants" || table === "plans") && <span className="text-red-600 ml-1">*</span>}
+            </label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                setFiles(prev => ({ ...prev, [table]: file }));
+                setReport(null);
+              }}
+              className="block w-full text-sm text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 file:font-medium hover:file:bg-slate-200"
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleImport} disabled={!canImport}>
+        {isImporting ? "Importing..." : "Import"}
+      </Button>
+
+      {report && (
+        <div className="mt-6 pt-5 border-t border-slate-200">
+          <div className="flex items-center gap-2 mb-4">
+            <h4 className="font-semibold text-slate-900 text-base">Validation Report</h4>
+            {report.errors.length === 0 ? (
+              <Badge variant="success">No errors</Badge>
+            ) : (
+              <Badge variant="warning">{formatNumber(report.errors.length)} errors</Badge>
+            )}
+            {!wasImported && <Badge variant="danger">Not imported</Badge>}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4 text-sm">
+            {CSV_TABLES.map(table => (
+              <div key={table} className="flex justify-between py-1.5 border-b border-slate-200/60">
+                <span className="text-slate-600 font-medium">{CSV_TABLE_LABELS[table]}:</span>
+                <span className="font-semibold text-slate-900">
+                  {formatNumber(report.rowCounts[table].imported)} / {formatNumber(report.rowCounts[table].total)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {report.errors.length > 0 && (
+            <div className="overflow-x-auto -mx-6 px-6">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">File</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Field</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {report.errors.slice(0, MAX_ERRORS_SHOWN).map((error, idx) => (
+                    <tr key={idx} className="hover:bg-slate-50/50 transition-colors">
+                      <td className="px-4 py-3 text-sm text-slate-900">{CSV_TABLE_LABELS[error.table]}</td>
+                      <td className="px-4 py-3 text-sm text-slate-900">{error.row}</td>
+                      <td className="px-4 py-3 text-sm text-slate-900 font-mono">{error.field ?? '-'}</td>
+                      <td className="px-4 py-3 text-sm text-slate-900">{error.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.errors.length > MAX_ERRORS_SHOWN && (
+                <p className="text-xs text-slate-500 mt-3">
+                  Showing first {MAX_ERRORS_SHOWN} of {formatNumber(report.errors.length)} errors.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
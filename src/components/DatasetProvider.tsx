@@ -0,0 +1,34 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { DatasetContext, type NamedDataset } from '../data/datasetContext';
+
+interface DatasetProviderProps {
+  initialDatasets: NamedDataset[];
+  children: ReactNode;
+}
+
+export function DatasetProvider({ initialDatasets, children }: DatasetProviderProps) {
+  const [datasets, setDatasets] = useState<NamedDataset[]>(initialDatasets);
+  const [activeDatasetId, setActiveDatasetId] = useState<string>(initialDatasets[0]?.id ?? "");
+
+  // Adding a dataset with an existing id replaces it
+  const addDataset = useCallback((entry: NamedDataset) => {
+    setDatasets(prev => [...prev.filter(d => d.id !== entry.id), entry]);
+  }, []);
+
+  const value = useMemo(() => {
+    const active = datasets.find(d => d.id === activeDatasetId) ?? datasets[0];
+    return {
+      dataset: active.dataset,
+      datasets,
+      activeDatasetId: active.id,
+      setActiveDatasetId,
+      addDataset,
+    };
+  }, [datasets, activeDatasetId, addDataset]);
+
+  return (
+    <DatasetContext.Provider value={value}>
+      {children}
+    </DatasetContext.Provider>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+
+interface SaveScenarioFormProps {
+  defaultName: string;
+  // Persists the scenario; thrown errors (e.g. storage full) are shown inline
+  onSave: (name: string) => void;
+}
+
+export function SaveScenarioForm({ defaultName, onSave }: SaveScenarioFormProps) {
+  const [name, setName] = useState(defaultName);
+  const [savedName, setSavedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim() || defaultName;
+    try {
+      onSave(trimmed);
+      setSavedName(trimmed);
+      setError(null);
+    } catch (err) {
+      setError(`Could not save scenario: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <Card title="Save Scenario">
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setSavedName(null);
+          }}
+          className="flex-1 px-4 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 placeholder:text-slate-400"
+          placeholder={defaultName}
+        />
+        <Button variant="outline" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+      {savedName && (
+        <p className="mt-2 text-xs text-slate-600">
+          Saved "{savedName}". <Link to="/scenarios" className="text-primary-700 font-medium hover:underline">Compare scenarios</Link>
+        </p>
+      )}
+      {error && (
+        <p className="mt-2 text-xs text-red-700">{error}</p>
+      )}
+    </Card>
+  );
+}
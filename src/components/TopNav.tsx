@@ -30,6 +30,17 @@ export function TopNav() {
             >
               Price Simulation
             </Link>
+            <Link
+              to="/portfolio"
+              className={clsx(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200",
+                location.pathname === '/portfolio'
+                  ? "bg-primary-50 text-primary-700 shadow-soft"
+                  : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+              )}
+            >
+              Portfolio
+            </Link>
             <Link
               to="/churn"
               className={clsx(
@@ -41,6 +52,28 @@ export function TopNav() {
             >
               Churn Simulation
             </Link>
+            <Link
+              to="/scenarios"
+              className={clsx(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200",
+                location.pathname === '/scenarios'
+                  ? "bg-primary-50 text-primary-700 shadow-soft"
+                  : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+              )}
+            >
+              Scenarios
+            </Link>
+            <Link
+              to="/survival"
+              className={clsx(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200",
+                location.pathname === '/survival'
+                  ? "bg-primary-50 text-primary-700 shadow-soft"
+                  : "text-slate-600 hover:text-slate-900 hover:bg-slate-50"
+              )}
+            >
+              Survival
+            </Link>
             <Link
               to="/data"
               className={clsx(
@@ -0,0 +1,38 @@
+import { createContext, useContext } from 'react';
+import type { Dataset } from './types';
+
+export interface NamedDataset {
+  id: string;
+  name: string;
+  dataset: Dataset;
+}
+
+export interface DatasetContextValue {
+  dataset: Dataset;
+  datasets: NamedDataset[];
+  activeDatasetId: string;
+  setActiveDatasetId: (id: string) => void;
+  addDataset: (entry: NamedDataset) => void;
+}
+
+export const DatasetContext = createContext<DatasetContextValue | null>(null);
+
+/**
+ * Returns the full dataset registry (available datasets and the active selection).
+ * Must be called inside a <DatasetProvider>.
+ */
+export function useDatasetRegistry(): DatasetContextValue {
+  const value = useContext(DatasetContext);
+  if (!value) {
+    throw new Error("useDatasetRegistry must be used within a DatasetProvider");
+  }
+  return value;
+}
+
+/**
+ * Returns the dataset the simulators should run against.
+ * Must be called inside a <DatasetProvider>.
+ */
+export function useDataset(): Dataset {
+  return useDatasetRegistry().dataset;
+}
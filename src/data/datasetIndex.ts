@@ -0,0 +1,117 @@
+import type {
+  Dataset,
+  Plan,
+  PlanInterval,
+  PriceChangeEvent,
+  CancellationEvent,
+  PaymentFailureEvent,
+  PauseEvent,
+  InterventionType,
+  IncentiveStrength,
+} from './types';
+
+/**
+ * Lookup tables over a dataset, built once per dataset object and shared by every simulation run.
+ * Every list keeps the dataset's original event order so results match a plain scan of the arrays.
+ */
+export interface DatasetIndex {
+  planById: Map<string, Plan>;
+  plansByMerchant: Map<string, Plan[]>;
+  priceEventsByMerchant: Map<string, PriceChangeEvent[]>;
+  priceEventsByInterval: Map<PlanInterval, PriceChangeEvent[]>; // interval of the event's plan
+  latestPriceEventTime: number;
+  cancellationEventsByPlan: Map<string, CancellationEvent[]>;
+  cancellationEventsByIntervention: Map<string, CancellationEvent[]>; // see interventionKey
+  latestCancellationEventTime: number;
+  paymentEventsByPlan: Map<string, PaymentFailureEvent[]>;
+  paymentEventsByDunningConfig: Map<string, PaymentFailureEvent[]>; // see dunningConfigKey
+  latestPaymentEventTime: number;
+  pauseEventsByPlan: Map<string, PauseEvent[]>;
+  latestPauseEventTime: number;
+}
+
+export interface DunningConfig {
+  retries: number;
+  retryWindowDays: number;
+  fallbackEnabled: boolean;
+}
+
+// Incentive events are keyed by strength as well; other intervention types match any strength
+export function interventionKey(planId: string, type: InterventionType, incentiveStrength?: IncentiveStrength): string {
+  return type === "incentive" ? `${planId}|${type}|${incentiveStrength}` : `${planId}|${type}`;
+}
+
+export function dunningConfigKey(planId: string, config: DunningConfig): string {
+  return `${planId}|${config.retries}|${config.retryWindowDays}|${config.fallbackEnabled}`;
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+function buildDatasetIndex(dataset: Dataset): DatasetIndex {
+  const index: DatasetIndex = {
+    planById: new Map(),
+    plansByMerchant: new Map(),
+    priceEventsByMerchant: new Map(),
+    priceEventsByInterval: new Map(),
+    latestPriceEventTime: 0,
+    cancellationEventsByPlan: new Map(),
+    cancellationEventsByIntervention: new Map(),
+    latestCancellationEventTime: 0,
+    paymentEventsByPlan: new Map(),
+    paymentEventsByDunningConfig: new Map(),
+    latestPaymentEventTime: 0,
+    pauseEventsByPlan: new Map(),
+    latestPauseEventTime: 0,
+  };
+
+  for (const plan of dataset.plans) {
+    // Keep the first plan for a duplicated id, matching Array.find
+    if (!index.planById.has(plan.id)) index.planById.set(plan.id, plan);
+    push(index.plansByMerchant, plan.merchantId, plan);
+  }
+
+  for (const event of dataset.events) {
+    push(index.priceEventsByMerchant, event.merchantId, event);
+    const plan = index.planById.get(event.planId);
+    if (plan) push(index.priceEventsByInterval, plan.interval, event);
+    index.latestPriceEventTime = Math.max(index.latestPriceEventTime, event.effectiveDate.getTime());
+  }
+
+  for (const event of dataset.cancellationEvents) {
+    push(index.cancellationEventsByPlan, event.planId, event);
+    push(index.cancellationEventsByIntervention, interventionKey(event.planId, event.interventionType, event.incentiveStrength), event);
+    index.latestCancellationEventTime = Math.max(index.latestCancellationEventTime, event.eventDate.getTime());
+  }
+
+  for (const event of dataset.paymentFailureEvents) {
+    push(index.paymentEventsByPlan, event.planId, event);
+    push(index.paymentEventsByDunningConfig, dunningConfigKey(event.planId, event), event);
+    index.latestPaymentEventTime = Math.max(index.latestPaymentEventTime, event.eventDate.getTime());
+  }
+
+  for (const event of dataset.pauseEvents) {
+    push(index.pauseEventsByPlan, event.planId, event);
+    index.latestPauseEventTime = Math.max(index.latestPauseEventTime, event.eventDate.getTime());
+  }
+
+  return index;
+}
+
+const indexCache = new WeakMap<Dataset, DatasetIndex>();
+
+// Datasets are treated as immutable: editing one in place requires a new object to refresh the index
+export function getDatasetIndex(dataset: Dataset): DatasetIndex {
+  let index = indexCache.get(dataset);
+  if (!index) {
+    index = buildDatasetIndex(dataset);
+    indexCache.set(dataset, index);
+  }
+  return index;
+}
@@ -0,0 +1,376 @@
+import { z } from 'zod';
+import { merchantSchema, planSchema, priceChangeEventSchema, cancellationEventSchema, paymentFailureEventSchema, pauseEventSchema } from './schema';
+import type { Dataset, Merchant, Plan, PriceChangeEvent, CancellationEvent, PaymentFailureEvent, PauseEvent } from './types';
+
+export type CsvTable =
+  | "merchants"
+  | "plans"
+  | "events"
+  | "cancellationEvents"
+  | "paymentFailureEvents"
+  | "pauseEvents";
+
+export const CSV_TABLES: CsvTable[] = [
+  "merchants",
+  "plans",
+  "events",
+  "cancellationEvents",
+  "paymentFailureEvents",
+  "pauseEvents",
+];
+
+export const CSV_TABLE_LABELS: Record<CsvTable, string> = {
+  merchants: "Merchants",
+  plans: "Plans",
+  events: "Price Change Events",
+  cancellationEvents: "Cancellation Events",
+  paymentFailureEvents: "Payment Failure Events",
+  pauseEvents: "Pause Events",
+};
+
+export interface CsvRowError {
+  table: CsvTable;
+  row: number; // 1-based row number in the file (header is row 1, blank lines skipped)
+  field?: string;
+  message: string;
+}
+
+export interface CsvImportResult {
+  dataset: Dataset;
+  errors: CsvRowError[];
+  rowCounts: Record<CsvTable, { total: number; imported: number }>;
+}
+
+// CSV cells are strings: convert numbers and booleans before the dataset schema's own rules apply
+const TRUE_CELLS = ["true", "1", "yes", "on", "y", "enabled"];
+const FALSE_CELLS = ["false", "0", "no", "off", "n", "disabled"];
+
+function numberCell<T extends z.ZodType>(schema: T) {
+  return z.preprocess(cell => (typeof cell === "string" ? Number(cell) : cell), schema);
+}
+
+function boolCell<T extends z.ZodType>(schema: T) {
+  return z.preprocess(cell => {
+    if (typeof cell !== "string") return cell;
+    const value = cell.toLowerCase();
+    if (TRUE_CELLS.includes(value)) return true;
+    if (FALSE_CELLS.includes(value)) return false;
+    return cell;
+  }, schema);
+}
+
+// Row schemas reuse the dataset schema's fields; only CSV defaults and optional columns differ
+const merchantRowSchema = z.object({
+  ...merchantSchema.shape,
+  vertical: merchantSchema.shape.vertical.default("Streaming Service"),
+});
+
+const planRowSchema = z.object({
+  ...planSchema.shape,
+  currentPriceMonthly: numberCell(planSchema.shape.currentPriceMonthly),
+  activeSubs: numberCell(planSchema.shape.activeSubs),
+  baselineChurn90d: numberCell(planSchema.shape.baselineChurn90d),
+  arpuAddonsMonthly: numberCell(planSchema.shape.arpuAddonsMonthly).default(0),
+  baselineCancelRate90d: numberCell(planSchema.shape.baselineCancelRate90d),
+  paymentFailureRate90d: numberCell(planSchema.shape.paymentFailureRate90d),
+  baselineDunningRecoveryRate: numberCell(planSchema.shape.baselineDunningRecoveryRate),
+  baselinePauseAdoptionRate: numberCell(planSchema.shape.baselinePauseAdoptionRate),
+});
+
+const priceChangeEventRowSchema = z.object({
+  ...priceChangeEventSchema.shape,
+  oldPriceMonthly: numberCell(priceChangeEventSchema.shape.oldPriceMonthly),
+  newPriceMonthly: numberCell(priceChangeEventSchema.shape.newPriceMonthly),
+  // Computed from the two prices when the column is left out
+  pctChange: numberCell(priceChangeEventSchema.shape.pctChange).optional(),
+  churn90dTreatment: numberCell(priceChangeEventSchema.shape.churn90dTreatment),
+  churn90dControl: numberCell(priceChangeEventSchema.shape.churn90dControl),
+});
+
+const cancellationEventRowSchema = z.object({
+  ...cancellationEventSchema.shape,
+  incentiveStrength: cancellationEventSchema.shape.incentiveStrength.default("none"),
+  postEventLifetimeDays: numberCell(cancellationEventSchema.shape.postEventLifetimeDays),
+}).superRefine((row, ctx) => {
+  // Only incentive interventions carry a strength, and they always need one
+  if (row.interventionType === "incentive" && row.incentiveStrength === "none") {
+    ctx.addIssue({
+      code: "custom",
+      path: ["incentiveStrength"],
+      message: `must be one of "light", "medium", "heavy" when interventionType is "incentive"`,
+    });
+  } else if (row.interventionType !== "incentive" && row.incentiveStrength !== "none") {
+    ctx.addIssue({
+      code: "custom",
+      path: ["incentiveStrength"],
+      message: `must be "none" unless interventionType is "incentive"`,
+    });
+  }
+});
+
+const paymentFailureEventRowSchema = z.object({
+  ...paymentFailureEventSchema.shape,
+  retries: numberCell(paymentFailureEventSchema.shape.retries),
+  retryWindowDays: numberCell(paymentFailureEventSchema.shape.retryWindowDays),
+  fallbackEnabled: boolCell(paymentFailureEventSchema.shape.fallbackEnabled),
+  recovered: boolCell(paymentFailureEventSchema.shape.recovered),
+  recoveryDays: numberCell(paymentFailureEventSchema.shape.recoveryDays),
+});
+
+const pauseEventRowSchema = z.object({
+  ...pauseEventSchema.shape,
+  pauseEnabled: boolCell(pauseEventSchema.shape.pauseEnabled),
+  pauseCycles: numberCell(pauseEventSchema.shape.pauseCycles),
+  resumed: boolCell(pauseEventSchema.shape.resumed),
+  churnedWithin90d: boolCell(pauseEventSchema.shape.churnedWithin90d),
+});
+
+// Row errors are shown to whoever prepared the file, so replace zod's messages with plain ones
+function formatValues(values: readonly unknown[]): string {
+  const quoted = values.map(v => `"${String(v)}"`);
+  return quoted.length === 1 ? `must be ${quoted[0]}` : `must be one of ${quoted.join(", ")}`;
+}
+
+function csvIssueMessage(issue: z.core.$ZodRawIssue): string | undefined {
+  if (issue.input === undefined) return "is required";
+  switch (issue.code) {
+    case "invalid_type":
+      if (issue.expected === "boolean") return "must be true or false";
+      if (issue.expected === "int") return "must be a whole number";
+      return "must be a number";
+    case "invalid_union":
+      // Dates are the only union fields
+      return "must be a valid date (e.g. 2024-03-01)";
+    case "too_small":
+      if (issue.origin !== "number") return "is required";
+      return issue.inclusive ? `must be ${issue.minimum} or greater` : `must be greater than ${issue.minimum}`;
+    case "too_big":
+      return issue.inclusive ? `must be ${issue.maximum} or less` : `must be less than ${issue.maximum}`;
+    case "invalid_value":
+      return formatValues(issue.values);
+    default:
+      return undefined;
+  }
+}
+
+const ROW_SCHEMAS = {
+  merchants: merchantRowSchema,
+  plans: planRowSchema,
+  events: priceChangeEventRowSchema,
+  cancellationEvents: cancellationEventRowSchema,
+  paymentFailureEvents: paymentFailureEventRowSchema,
+  pauseEvents: pauseEventRowSchema,
+} satisfies Record<CsvTable, z.ZodObject>;
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes, CRLF).
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+// Parse a single CSV file against a row schema, collecting row-level errors
+function parseTable<S extends z.ZodObject>(
+  table: CsvTable,
+  text: string | undefined,
+  schema: S,
+  errors: CsvRowError[],
+  rowCounts: Record<CsvTable, { total: number; imported: number }>
+): Array<{ row: number; value: z.output<S> }> {
+  if (!text) return [];
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  rowCounts[table].total = records.length;
+  const columns = header.map(c => c.trim());
+
+  // A missing required column would fail every row; report it once instead
+  const missingColumns = Object.entries(schema.shape)
+    .filter(([key, field]) => !columns.includes(key) && !(field as z.ZodType).safeParse(undefined).success)
+    .map(([key]) => key);
+  if (missingColumns.length > 0) {
+    errors.push({
+      table,
+      row: 1,
+      message: `Missing required column(s): ${missingColumns.join(", ")}`,
+    });
+    return [];
+  }
+
+  const parsed: Array<{ row: number; value: z.output<S> }> = [];
+  records.forEach((cells, idx) => {
+    const row = idx + 2;
+    const raw: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      const cell = cells[c]?.trim();
+      // Empty cells are treated as missing so optional fields and defaults apply
+      if (cell !== undefined && cell !== "") raw[column] = cell;
+    });
+
+    const result = schema.safeParse(raw, { error: csvIssueMessage });
+    if (result.success) {
+      parsed.push({ row, value: result.data });
+    } else {
+      for (const issue of result.error.issues) {
+        const field = issue.path.length > 0 ? String(issue.path[0]) : undefined;
+        errors.push({ table, row, field, message: issue.message });
+      }
+    }
+  });
+  return parsed;
+}
+
+// Drop rows whose id has already been seen in the same table
+function dedupe<T extends { id: string }>(
+  table: CsvTable,
+  rows: Array<{ row: number; value: T }>,
+  errors: CsvRowError[]
+): Array<{ row: number; value: T }> {
+  const seen = new Set<string>();
+  return rows.filter(({ row, value }) => {
+    if (seen.has(value.id)) {
+      errors.push({ table, row, field: "id", message: `Duplicate id "${value.id}"` });
+      return false;
+    }
+    seen.add(value.id);
+    return true;
+  });
+}
+
+// Events must reference an imported plan belonging to the same merchant
+function checkPlanReference<T extends { merchantId: string; planId: string }>(
+  table: CsvTable,
+  rows: Array<{ row: number; value: T }>,
+  plansById: Map<string, Plan>,
+  errors: CsvRowError[]
+): T[] {
+  const valid: T[] = [];
+  for (const { row, value } of rows) {
+    const plan = plansById.get(value.planId);
+    if (!plan) {
+      errors.push({ table, row, field: "planId", message: `Unknown planId "${value.planId}"` });
+      continue;
+    }
+    if (plan.merchantId !== value.merchantId) {
+      errors.push({
+        table,
+        row,
+        field: "merchantId",
+        message: `Plan "${value.planId}" belongs to merchant "${plan.merchantId}", not "${value.merchantId}"`,
+      });
+      continue;
+    }
+    valid.push(value);
+  }
+  return valid;
+}
+
+/**
+ * Import a dataset from CSV files (one per table, header row = field names from types.ts).
+ * Invalid rows are skipped and reported; valid rows are returned as a Dataset.
+ */
+export function importDatasetFromCsv(files: Partial<Record<CsvTable, string>>): CsvImportResult {
+  const errors: CsvRowError[] = [];
+  const rowCounts = Object.fromEntries(
+    CSV_TABLES.map(table => [table, { total: 0, imported: 0 }])
+  ) as Record<CsvTable, { total: number; imported: number }>;
+
+  const merchantRows = dedupe("merchants", parseTable("merchants", files.merchants, ROW_SCHEMAS.merchants, errors, rowCounts), errors);
+  const merchants: Merchant[] = merchantRows.map(r => r.value);
+  const merchantIds = new Set(merchants.map(m => m.id));
+
+  const planRows = dedupe("plans", parseTable("plans", files.plans, ROW_SCHEMAS.plans, errors, rowCounts), errors);
+  const plans: Plan[] = [];
+  for (const { row, value } of planRows) {
+    if (!merchantIds.has(value.merchantId)) {
+      errors.push({ table: "plans", row, field: "merchantId", message: `Unknown merchantId "${value.merchantId}"` });
+      continue;
+    }
+    plans.push(value);
+  }
+  const plansById = new Map(plans.map(p => [p.id, p]));
+
+  const eventRows = dedupe("events", parseTable("events", files.events, ROW_SCHEMAS.events, errors, rowCounts), errors);
+  const events: PriceChangeEvent[] = checkPlanReference("events", eventRows, plansById, errors).map(e => ({
+    ...e,
+    pctChange: e.pctChange ?? (e.newPriceMonthly - e.oldPriceMonthly) / e.oldPriceMonthly,
+  }));
+
+  const cancellationRows = dedupe(
+    "cancellationEvents",
+    parseTable("cancellationEvents", files.cancellationEvents, ROW_SCHEMAS.cancellationEvents, errors, rowCounts),
+    errors
+  );
+  const cancellationEvents: CancellationEvent[] = checkPlanReference("cancellationEvents", cancellationRows, plansById, errors);
+
+  const paymentRows = dedupe(
+    "paymentFailureEvents",
+    parseTable("paymentFailureEvents", files.paymentFailureEvents, ROW_SCHEMAS.paymentFailureEvents, errors, rowCounts),
+    errors
+  );
+  const paymentFailureEvents: PaymentFailureEvent[] = checkPlanReference("paymentFailureEvents", paymentRows, plansById, errors);
+
+  const pauseRows = dedupe("pauseEvents", parseTable("pauseEvents", files.pauseEvents, ROW_SCHEMAS.pauseEvents, errors, rowCounts), errors);
+  const pauseEvents: PauseEvent[] = checkPlanReference("pauseEvents", pauseRows, plansById, errors);
+
+  // Match the generator's ordering (newest first)
+  events.sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime());
+  cancellationEvents.sort((a, b) => b.eventDate.getTime() - a.eventDate.getTime());
+  paymentFailureEvents.sort((a, b) => b.eventDate.getTime() - a.eventDate.getTime());
+  pauseEvents.sort((a, b) => b.eventDate.getTime() - a.eventDate.getTime());
+
+  const dataset: Dataset = { merchants, plans, events, cancellationEvents, paymentFailureEvents, pauseEvents };
+
+  for (const table of CSV_TABLES) {
+    rowCounts[table].imported = dataset[table].length;
+  }
+
+  errors.sort((a, b) => CSV_TABLES.indexOf(a.table) - CSV_TABLES.indexOf(b.table) || a.row - b.row);
+
+  return { dataset, errors, rowCounts };
+}
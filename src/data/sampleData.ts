@@ -1,5 +1,14 @@
 import { generateDataset } from './generate';
+import type { Dataset } from './types';
 
-export const dataset = generateDataset(42);
+export const SAMPLE_SEED = 42;
+export const dataset = generateDataset(SAMPLE_SEED);
 export const TEST_MERCHANT_ID = "m_test";
 
+// Prefer the test merchant when the dataset has it (imported data usually won't)
+export function getDefaultMerchantId(data: Dataset): string {
+  if (data.merchants.some(m => m.id === TEST_MERCHANT_ID)) {
+    return TEST_MERCHANT_ID;
+  }
+  return data.merchants[0]?.id ?? "";
+}
@@ -0,0 +1,99 @@
+import { useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { simulationInputSchema, churnSimulationInputSchema } from '../lib/inputSchemas';
+import type { NewScenario, SavedScenario } from '../lib/scenarios';
+
+// Bump the key suffix if the stored shape changes incompatibly
+const STORAGE_KEY = "price-impact-sim:scenarios:v1";
+
+const metricsSchema = z.object({
+  baselineChurn90d: z.number(),
+  expectedChurn90d: z.number(),
+  mrrDelta: z.number(),
+  arrDelta: z.number(),
+  arrRangeLow: z.number(),
+  arrRangeHigh: z.number(),
+  confidence: z.enum(["High", "Med", "Low"]),
+  evidenceCount: z.number(),
+});
+
+const baseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  savedAt: z.string(),
+  datasetName: z.string(),
+  merchantId: z.string(),
+  planId: z.string(),
+  planName: z.string(),
+  metrics: metricsSchema,
+});
+
+const savedScenarioSchema = z.discriminatedUnion("kind", [
+  baseSchema.extend({ kind: z.literal("price"), input: simulationInputSchema }),
+  baseSchema.extend({ kind: z.literal("churn"), input: churnSimulationInputSchema }),
+]) satisfies z.ZodType<SavedScenario, unknown>;
+
+const listeners = new Set<() => void>();
+let cache: SavedScenario[] | null = null;
+
+// Entries that no longer validate (older builds, hand edits) are skipped rather than failing the whole list
+function readScenarios(): SavedScenario[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(entry => {
+      const parsed = savedScenarioSchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch (error) {
+    console.warn("Could not read saved scenarios:", error);
+    return [];
+  }
+}
+
+function writeScenarios(scenarios: SavedScenario[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  cache = scenarios;
+  listeners.forEach(listener => listener());
+}
+
+export function getSavedScenarios(): SavedScenario[] {
+  if (cache === null) cache = readScenarios();
+  return cache;
+}
+
+/**
+ * Save a scenario and return it with its id and timestamp.
+ * Throws when localStorage is unavailable or full.
+ */
+export function saveScenario(scenario: NewScenario): SavedScenario {
+  const saved = { ...scenario, id: crypto.randomUUID(), savedAt: new Date().toISOString() } as SavedScenario;
+  writeScenarios([...getSavedScenarios(), saved]);
+  return saved;
+}
+
+export function deleteScenario(id: string) {
+  writeScenarios(getSavedScenarios().filter(s => s.id !== id));
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Pick up saves made in other tabs
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/**
+ * Saved scenarios from localStorage, re-rendering when they change in this or another tab.
+ */
+export function useSavedScenarios(): SavedScenario[] {
+  return useSyncExternalStore(subscribe, getSavedScenarios);
+}
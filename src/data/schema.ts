@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import type { Dataset, Merchant, Plan, PriceChangeEvent, CancellationEvent, PaymentFailureEvent, PauseEvent } from './types';
+
+/**
+ * Current version of the serialized dataset format.
+ * Bump this when the shape changes and add a migration below so older files keep loading.
+ */
+export const DATASET_SCHEMA_VERSION = 1;
+
+// Dates are stored as ISO strings in JSON; accept those or Date instances, but not values that merely
+// coerce (null, booleans, numbers), and reject strings that don't make a real date
+export const dateSchema = z.union([
+  z.date(),
+  z.union([z.iso.datetime({ offset: true, local: true }), z.iso.date()])
+    .transform(value => new Date(value))
+    .pipe(z.date()),
+]);
+const rateSchema = z.number().min(0).max(1);
+
+export const merchantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  vertical: z.literal("Streaming Service"),
+}) satisfies z.ZodType<Merchant>;
+
+export const planSchema = z.object({
+  id: z.string().min(1),
+  merchantId: z.string().min(1),
+  name: z.string(),
+  interval: z.enum(["monthly", "annual"]),
+  currentPriceMonthly: z.number().positive(), // percent changes and elasticities divide by it
+  activeSubs: z.number().int().min(0),
+  baselineChurn90d: rateSchema,
+  arpuAddonsMonthly: z.number().min(0),
+  createdAt: dateSchema,
+  baselineCancelRate90d: rateSchema,
+  paymentFailureRate90d: rateSchema,
+  baselineDunningRecoveryRate: rateSchema,
+  baselinePauseAdoptionRate: rateSchema,
+}) satisfies z.ZodType<Plan>;
+
+export const priceChangeEventSchema = z.object({
+  id: z.string().min(1),
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  effectiveDate: dateSchema,
+  oldPriceMonthly: z.number().positive(),
+  newPriceMonthly: z.number().min(0),
+  pctChange: z.number(),
+  churn90dTreatment: rateSchema,
+  churn90dControl: rateSchema,
+  notes: z.string().optional(),
+}) satisfies z.ZodType<PriceChangeEvent>;
+
+export const cancellationEventSchema = z.object({
+  id: z.string().min(1),
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  eventDate: dateSchema,
+  interventionType: z.enum(["none", "survey", "pause", "incentive"]),
+  incentiveStrength: z.enum(["none", "light", "medium", "heavy"]),
+  outcome: z.enum(["saved", "canceled"]),
+  postEventLifetimeDays: z.number().min(0).optional(),
+}) satisfies z.ZodType<CancellationEvent>;
+
+export const paymentFailureEventSchema = z.object({
+  id: z.string().min(1),
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  eventDate: dateSchema,
+  retries: z.number().int().min(0),
+  retryWindowDays: z.number().int().min(0),
+  fallbackEnabled: z.boolean(),
+  recovered: z.boolean(),
+  recoveryDays: z.number().min(0).optional(),
+}) satisfies z.ZodType<PaymentFailureEvent>;
+
+export const pauseEventSchema = z.object({
+  id: z.string().min(1),
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  eventDate: dateSchema,
+  pauseEnabled: z.boolean(),
+  pauseCycles: z.number().int().min(0),
+  resumed: z.boolean(),
+  churnedWithin90d: z.boolean().optional(),
+}) satisfies z.ZodType<PauseEvent>;
+
+type EventCollection = "events" | "cancellationEvents" | "paymentFailureEvents" | "pauseEvents";
+const EVENT_COLLECTIONS: EventCollection[] = ["events", "cancellationEvents", "paymentFailureEvents", "pauseEvents"];
+
+export const datasetSchema = z.object({
+  merchants: z.array(merchantSchema),
+  plans: z.array(planSchema),
+  // Event collections default to empty so files that only carry merchants and plans still load
+  events: z.array(priceChangeEventSchema).default([]),
+  cancellationEvents: z.array(cancellationEventSchema).default([]),
+  paymentFailureEvents: z.array(paymentFailureEventSchema).default([]),
+  pauseEvents: z.array(pauseEventSchema).default([]),
+}).superRefine((data, ctx) => {
+  // Referential integrity: ids are unique, plans belong to known merchants,
+  // and every event points at a known plan owned by the event's merchant
+  const checkUniqueIds = (collection: keyof Dataset, items: Array<{ id: string }>) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) {
+        ctx.addIssue({ code: "custom", path: [collection, index, "id"], message: `Duplicate id "${item.id}"` });
+      }
+      seen.add(item.id);
+    });
+  };
+
+  checkUniqueIds("merchants", data.merchants);
+  checkUniqueIds("plans", data.plans);
+
+  const merchantIds = new Set(data.merchants.map(m => m.id));
+  data.plans.forEach((plan, index) => {
+    if (!merchantIds.has(plan.merchantId)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["plans", index, "merchantId"],
+        message: `Unknown merchantId "${plan.merchantId}"`,
+      });
+    }
+  });
+
+  const plansById = new Map(data.plans.map(p => [p.id, p]));
+  for (const collection of EVENT_COLLECTIONS) {
+    checkUniqueIds(collection, data[collection]);
+    data[collection].forEach((event, index) => {
+      const plan = plansById.get(event.planId);
+      if (!plan) {
+        ctx.addIssue({
+          code: "custom",
+          path: [collection, index, "planId"],
+          message: `Unknown planId "${event.planId}"`,
+        });
+      } else if (plan.merchantId !== event.merchantId) {
+        ctx.addIssue({
+          code: "custom",
+          path: [collection, index, "merchantId"],
+          message: `Plan "${event.planId}" belongs to merchant "${plan.merchantId}", not "${event.merchantId}"`,
+        });
+      }
+    });
+  }
+});
+
+export const datasetFileSchema = z.object({
+  schemaVersion: z.literal(DATASET_SCHEMA_VERSION),
+  exportedAt: z.string().optional(),
+  dataset: datasetSchema,
+});
+
+export type DatasetFile = z.input<typeof datasetFileSchema>;
+
+/**
+ * Migrations from each older version to the next one.
+ * Version 0 is a bare Dataset object written before the versioned envelope existed.
+ */
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (file) => ({ schemaVersion: 1, dataset: file }),
+};
+
+function migrate(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null) return raw;
+
+  let file = raw as Record<string, unknown>;
+  let version = typeof file.schemaVersion === "number" ? file.schemaVersion : 0;
+  if (version > DATASET_SCHEMA_VERSION) {
+    throw new Error(
+      `Dataset file uses schema version ${version}, but this build only supports up to ${DATASET_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < DATASET_SCHEMA_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+  return file;
+}
+
+/**
+ * Serialize a dataset to versioned JSON. Dates are written as ISO strings.
+ */
+export function serializeDataset(dataset: Dataset): string {
+  const file: DatasetFile = {
+    schemaVersion: DATASET_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    dataset,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export type DatasetParseResult =
+  | { success: true; dataset: Dataset }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse a serialized dataset (JSON text or an already-parsed object), migrating older
+ * schema versions and validating field types and referential integrity.
+ */
+export function safeParseDataset(input: string | unknown): DatasetParseResult {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = migrate(raw);
+  } catch (error) {
+    return { success: false, errors: [(error as Error).message] };
+  }
+
+  const result = datasetFileSchema.safeParse(migrated);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => {
+        const path = issue.path.join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      }),
+    };
+  }
+  return { success: true, dataset: result.data.dataset };
+}
+
+/**
+ * Like safeParseDataset, but throws an Error listing the first few problems.
+ */
+export function parseDataset(input: string | unknown): Dataset {
+  const result = safeParseDataset(input);
+  if (!result.success) {
+    const shown = result.errors.slice(0, 5).join("; ");
+    const more = result.errors.length > 5 ? ` (and ${result.errors.length - 5} more)` : "";
+    throw new Error(`Invalid dataset: ${shown}${more}`);
+  }
+  return result.dataset;
+}
@@ -0,0 +1,122 @@
+import type { PriceChangeEvent } from '../data/types';
+
+// Pooling strength: a side of the curve with this many merchant events gets 50% merchant / 50% global weight
+export const DEFAULT_POOLING_STRENGTH = 10;
+
+// Prior slopes used when there is no global evidence to pool toward (matches the heuristic fallback:
+// +10% -> +1.2pp churn, -10% -> -0.6pp churn)
+const PRIOR_INCREASE_SLOPE = 0.12;
+const PRIOR_DECREASE_SLOPE = 0.06;
+
+// Event with its similarity weight (closeness of the price change and price, and recency)
+export interface WeightedPriceEvent {
+  event: PriceChangeEvent;
+  weight: number;
+}
+
+export interface CurveFitStats {
+  increaseSlope: number; // churn lift per +1.0 (i.e. +100%) price change
+  decreaseSlope: number; // churn lift per -1.0 price change (applied to negative pctChange)
+  increaseCount: number; // events with a non-zero weight
+  decreaseCount: number;
+  r2: number;
+  rmse: number;
+}
+
+export interface ElasticityFit {
+  increaseSlope: number;
+  decreaseSlope: number;
+  merchant: CurveFitStats;
+  global?: CurveFitStats;
+  merchantWeightIncrease: number; // 0-1, share of the increase slope taken from merchant evidence
+  merchantWeightDecrease: number;
+  r2: number; // goodness-of-fit of the pooled curve on merchant events (global events if the merchant has none)
+  rmse: number;
+}
+
+function observedLift(event: PriceChangeEvent): number {
+  return event.churn90dTreatment - event.churn90dControl;
+}
+
+// Piecewise linear churn curve through the origin: separate slopes for increases and decreases
+export function predictLift(increaseSlope: number, decreaseSlope: number, pctChange: number): number {
+  return pctChange >= 0 ? increaseSlope * pctChange : decreaseSlope * pctChange;
+}
+
+// Weighted R² and RMSE of the curve
+function goodnessOfFit(events: WeightedPriceEvent[], increaseSlope: number, decreaseSlope: number): { r2: number; rmse: number } {
+  const totalWeight = events.reduce((sum, we) => sum + we.weight, 0);
+  if (totalWeight <= 0) return { r2: 0, rmse: 0 };
+  const mean = events.reduce((sum, we) => sum + we.weight * observedLift(we.event), 0) / totalWeight;
+  let ssRes = 0;
+  let ssTot = 0;
+  for (const { event, weight } of events) {
+    const lift = observedLift(event);
+    const residual = lift - predictLift(increaseSlope, decreaseSlope, event.pctChange);
+    ssRes += weight * residual * residual;
+    ssTot += weight * (lift - mean) * (lift - mean);
+  }
+  return {
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+    rmse: Math.sqrt(ssRes / totalWeight),
+  };
+}
+
+// Weighted least-squares slope through the origin: sum(w*x*y) / sum(w*x^2)
+function slopeThroughOrigin(events: WeightedPriceEvent[], fallback: number): number {
+  let sxy = 0;
+  let sxx = 0;
+  for (const { event, weight } of events) {
+    sxy += weight * event.pctChange * observedLift(event);
+    sxx += weight * event.pctChange * event.pctChange;
+  }
+  return sxx > 0 ? sxy / sxx : fallback;
+}
+
+export function fitCurve(events: WeightedPriceEvent[], fallback: { increaseSlope: number; decreaseSlope: number }): CurveFitStats {
+  const weighted = events.filter(we => we.weight > 0);
+  const increases = weighted.filter(we => we.event.pctChange > 0);
+  const decreases = weighted.filter(we => we.event.pctChange < 0);
+  const increaseSlope = slopeThroughOrigin(increases, fallback.increaseSlope);
+  const decreaseSlope = slopeThroughOrigin(decreases, fallback.decreaseSlope);
+  return {
+    increaseSlope,
+    decreaseSlope,
+    increaseCount: increases.length,
+    decreaseCount: decreases.length,
+    ...goodnessOfFit(weighted, increaseSlope, decreaseSlope),
+  };
+}
+
+/**
+ * Fit a piecewise linear churn-vs-pctChange curve for a merchant, partially pooled toward the
+ * global fit (or the heuristic prior when no global events are supplied). Slopes are weighted least
+ * squares on each event's similarity weight. Each side of the curve is pooled separately, weighted by
+ * how many merchant events informed it.
+ */
+export function fitElasticityCurve(
+  merchantEvents: WeightedPriceEvent[],
+  globalEvents: WeightedPriceEvent[],
+  poolingStrength: number = DEFAULT_POOLING_STRENGTH
+): ElasticityFit {
+  const prior = { increaseSlope: PRIOR_INCREASE_SLOPE, decreaseSlope: PRIOR_DECREASE_SLOPE };
+  const global = globalEvents.length > 0 ? fitCurve(globalEvents, prior) : undefined;
+  const target = global ?? prior;
+  const merchant = fitCurve(merchantEvents, target);
+
+  const merchantWeightIncrease = merchant.increaseCount / (merchant.increaseCount + poolingStrength);
+  const merchantWeightDecrease = merchant.decreaseCount / (merchant.decreaseCount + poolingStrength);
+
+  const increaseSlope = merchantWeightIncrease * merchant.increaseSlope + (1 - merchantWeightIncrease) * target.increaseSlope;
+  const decreaseSlope = merchantWeightDecrease * merchant.decreaseSlope + (1 - merchantWeightDecrease) * target.decreaseSlope;
+
+  return {
+    increaseSlope,
+    decreaseSlope,
+    merchant,
+    global,
+    merchantWeightIncrease,
+    merchantWeightDecrease,
+    ...goodnessOfFit(merchantEvents.length > 0 ? merchantEvents : globalEvents, increaseSlope, decreaseSlope),
+  };
+}
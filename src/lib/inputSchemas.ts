@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import type { SimulationInput, PriceOptimizationInput } from './simulate';
+import type { ChurnSimulationInput } from './simulateChurn';
+import { DEFAULT_PROJECTION_MONTHS } from './projection';
+
+// Validation for simulation inputs arriving from outside the app (CLI scenario files, HTTP requests, shared links)
+
+const estimatorSchema = z.enum(["nearestNeighbor", "curveFit"]);
+
+// Resampling runs synchronously, so unbounded iteration counts could tie up the server
+const MAX_ITERATIONS = 10000;
+// Projection and phased-rollout work grows with the number of months, so cap it at ten years
+const MAX_PROJECTION_MONTHS = 120;
+
+const rolloutSchema = z.object({
+  mode: z.enum(["all", "grandfather", "newSignupsOnly", "phased"]),
+  grandfatheredShare: z.number().min(0).max(1).optional(),
+  phaseMonths: z.number().int().min(1).optional(),
+});
+
+// A phased rollout longer than the projection would never finish moving subscribers over
+function checkPhaseMonths(
+  rollout: z.infer<typeof rolloutSchema> | undefined,
+  projectionMonths: number | undefined,
+  ctx: z.RefinementCtx
+) {
+  const months = Math.max(projectionMonths ?? DEFAULT_PROJECTION_MONTHS, 12);
+  if (rollout?.phaseMonths !== undefined && rollout.phaseMonths > months) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["rollout", "phaseMonths"],
+      message: `Must not exceed the ${months}-month projection`,
+    });
+  }
+}
+
+export const simulationInputSchema = z.object({
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  newPriceMonthly: z.number().positive(),
+  useGlobalBenchmarks: z.boolean().default(false),
+  estimator: estimatorSchema.optional(),
+  recencyHalfLifeDays: z.number().positive().optional(),
+  bootstrap: z.object({
+    iterations: z.number().int().min(0).max(MAX_ITERATIONS),
+    seed: z.number().int(),
+    percentiles: z.array(z.number().min(0).max(1)),
+  }).partial().optional(),
+  projectionMonths: z.number().int().min(1).max(MAX_PROJECTION_MONTHS).optional(),
+  annualDiscountRate: z.number().min(0).optional(),
+  rollout: rolloutSchema.optional(),
+  renewalDistribution: z.enum(["even", "createdAt"]).optional(),
+}).superRefine((input, ctx) => checkPhaseMonths(input.rollout, input.projectionMonths, ctx)) satisfies z.ZodType<SimulationInput, unknown>;
+
+export const priceOptimizationInputSchema = z.object({
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  useGlobalBenchmarks: z.boolean().default(false),
+  priceRange: z.tuple([z.number().min(-1), z.number()]).optional(),
+  steps: z.number().int().min(1).max(1000).optional(),
+  estimator: estimatorSchema.optional(),
+  recencyHalfLifeDays: z.number().positive().optional(),
+  rollout: rolloutSchema.optional(),
+}).superRefine((input, ctx) => {
+  if (input.priceRange && input.priceRange[0] >= input.priceRange[1]) {
+    ctx.addIssue({ code: "custom", path: ["priceRange"], message: "Lower bound must be below the upper bound" });
+  }
+  // Sweep points use the default projection length
+  checkPhaseMonths(input.rollout, undefined, ctx);
+}) satisfies z.ZodType<PriceOptimizationInput, unknown>;
+
+const incentiveTermsSchema = z.object({
+  discountPct: z.number().min(0).max(1),
+  months: z.number().int().min(0),
+});
+
+export const churnSimulationInputSchema = z.object({
+  merchantId: z.string().min(1),
+  planId: z.string().min(1),
+  leverA: z.object({
+    type: z.enum(["none", "survey", "pause", "incentive"]),
+    incentiveStrength: z.enum(["none", "light", "medium", "heavy"]).optional(),
+  }),
+  leverB: z.object({
+    retries: z.number().int().min(0),
+    retryWindowDays: z.number().int().min(0),
+    fallbackEnabled: z.boolean(),
+  }),
+  leverC: z.object({
+    pauseEnabled: z.boolean(),
+    maxPauseCycles: z.number().int().min(0),
+  }),
+  incentiveTerms: z.object({
+    light: incentiveTermsSchema,
+    medium: incentiveTermsSchema,
+    heavy: incentiveTermsSchema,
+  }).partial().optional(),
+  monteCarlo: z.object({
+    iterations: z.number().int().min(1).max(MAX_ITERATIONS),
+    seed: z.number().int(),
+  }).partial().optional(),
+}) satisfies z.ZodType<ChurnSimulationInput, unknown>;
+
+// Flattened zod issues, e.g. "leverB.retries: Expected number, received string"
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+}
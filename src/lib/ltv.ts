@@ -0,0 +1,97 @@
+import { projectCohort, type CohortProjection, type CohortProjectionInput } from './projection';
+import { applyRolloutToProjection, type RolloutOptions } from './rollout';
+
+// Projection length behind LTV and payback; the excess churn from the price change has long decayed by then
+const LTV_PROJECTION_MONTHS = 60;
+
+export interface LtvImpact {
+  annualDiscountRate: number;
+  // LTVs are null when unbounded: no churn and no discounting
+  ltvBefore: number | null; // per existing subscriber, at current price and baseline churn
+  ltvAfter: number | null; // per existing subscriber, following the rollout and the projected churn
+  ltvDeltaPerSub: number | null;
+  portfolioLtvDelta: number | null; // ltvDeltaPerSub across all active subscribers
+  paybackMonths: number | null; // months until cumulative revenue delta recovers to >= 0; 0 if never negative, null if not within 5 years
+}
+
+/**
+ * Discounted lifetime value of one subscriber paying `monthlyRevenue` who churns at `monthlyChurn`:
+ * sum over k >= 0 of revenue * (1 - churn)^k / (1 + d)^k = revenue * (1 + d) / (churn + d).
+ * With no discounting this reduces to revenue / churn. Returns null when the sum doesn't converge
+ * (zero churn and no discounting) rather than Infinity, which JSON can't carry.
+ */
+export function lifetimeValue(monthlyRevenue: number, monthlyChurn: number, monthlyDiscountRate: number = 0): number | null {
+  const denominator = monthlyChurn + monthlyDiscountRate;
+  if (denominator <= 0) return null;
+  return monthlyRevenue * (1 + monthlyDiscountRate) / denominator;
+}
+
+// Discounted revenue of one path of the projection per starting subscriber, with the months past the
+// projection valued at `tailMonthlyChurn` (null when that tail is unbounded)
+function projectedLifetimeValue(
+  projection: CohortProjection,
+  path: "baseline" | "scenario",
+  activeSubs: number,
+  tailMonthlyChurn: number,
+  monthlyDiscountRate: number
+): number | null {
+  if (activeSubs <= 0) return 0;
+  let value = 0;
+  for (const m of projection.months) {
+    const mrr = path === "baseline" ? m.baselineMRR : m.scenarioMRR;
+    value += mrr / Math.pow(1 + monthlyDiscountRate, m.month - 1);
+  }
+  const last = projection.months[projection.months.length - 1];
+  const nextMRR = (path === "baseline" ? last.baselineMRR : last.scenarioMRR) * (1 - tailMonthlyChurn);
+  if (nextMRR <= 0) return value / activeSubs;
+  const tail = lifetimeValue(nextMRR, tailMonthlyChurn, monthlyDiscountRate);
+  if (tail === null) return null;
+  return (value + tail / Math.pow(1 + monthlyDiscountRate, last.month)) / activeSubs;
+}
+
+/**
+ * LTV and payback from the same rollout-adjusted projection as the rest of the simulation, run out to
+ * five years. Payback follows the projection as shown, new signups included; LTV follows the existing
+ * subscribers only, since signups that keep replacing churners would never add up to a finite value.
+ */
+export function computeLtvImpact(
+  input: CohortProjectionInput,
+  rollout: RolloutOptions,
+  annualDiscountRate: number = 0
+): LtvImpact {
+  const monthlyDiscountRate = Math.pow(1 + Math.max(annualDiscountRate, 0), 1 / 12) - 1;
+  const fullExposure = projectCohort({ ...input, months: LTV_PROJECTION_MONTHS });
+
+  // Past the projection both paths churn at baseline: the baseline path's average monthly rate over
+  // its last year, which also covers annual plans that only churn at renewal
+  const { months: baselineMonths } = fullExposure;
+  const yearAgoSubs = baselineMonths[baselineMonths.length - 13].baselineSubs;
+  const tailMonthlyChurn = yearAgoSubs > 0
+    ? 1 - Math.pow(baselineMonths[baselineMonths.length - 1].baselineSubs / yearAgoSubs, 1 / 12)
+    : 0;
+
+  const existing = applyRolloutToProjection(fullExposure, rollout, input, false);
+  const ltvBefore = projectedLifetimeValue(existing, "baseline", input.activeSubs, tailMonthlyChurn, monthlyDiscountRate);
+  const ltvAfter = projectedLifetimeValue(existing, "scenario", input.activeSubs, tailMonthlyChurn, monthlyDiscountRate);
+  const ltvDeltaPerSub = ltvBefore !== null && ltvAfter !== null ? ltvAfter - ltvBefore : null;
+
+  // Payback: first month after which the cumulative revenue delta is no longer negative
+  const { months } = applyRolloutToProjection(fullExposure, rollout, input);
+  let paybackMonths: number | null = 0;
+  for (const m of months) {
+    if (m.cumulativeRevenueDelta < 0) {
+      paybackMonths = null;
+    } else if (paybackMonths === null) {
+      paybackMonths = m.month;
+    }
+  }
+
+  return {
+    annualDiscountRate,
+    ltvBefore,
+    ltvAfter,
+    ltvDeltaPerSub,
+    portfolioLtvDelta: ltvDeltaPerSub !== null ? ltvDeltaPerSub * input.activeSubs : null,
+    paybackMonths,
+  };
+}
@@ -0,0 +1,260 @@
+import { simulate, type PriceEstimator } from './simulate';
+import type { RolloutOptions } from './rollout';
+import type { RenewalDistribution } from './projection';
+import { getDatasetIndex } from '../data/datasetIndex';
+import type { Dataset } from '../data/types';
+
+export type OptimizerObjective = "maxARR" | "minChurn";
+
+export type ConstraintId = "maxChurnIncrease" | "minSubscribers" | "maxPriceChangePct" | "priceFloor" | "minARRDelta";
+
+export const CONSTRAINT_LABELS: Record<ConstraintId, string> = {
+  maxChurnIncrease: "Max churn increase",
+  minSubscribers: "Min subscribers",
+  maxPriceChangePct: "Max price change",
+  priceFloor: "Price floor",
+  minARRDelta: "Min ARR impact",
+};
+
+export interface OptimizerConstraints {
+  maxChurnIncrease?: number; // absolute 90-day churn increase, e.g. 0.02 = +2pp
+  minSubscribers?: number; // subscribers remaining after price-driven churn
+  maxPriceChangePct?: number; // e.g. 0.30 = price may move at most ±30%
+  priceFloor?: number; // minimum monthly price
+  minARRDelta?: number; // minimum net ARR delta (used with the minChurn objective)
+}
+
+export interface PriceOptimizerInput {
+  merchantId: string;
+  planId: string;
+  useGlobalBenchmarks: boolean;
+  estimator?: PriceEstimator;
+  recencyHalfLifeDays?: number;
+  rollout?: RolloutOptions;
+  renewalDistribution?: RenewalDistribution;
+  objective: OptimizerObjective;
+  constraints: OptimizerConstraints;
+  charmPricing?: boolean; // only consider prices ending in .99
+  steps?: number; // candidate prices in the coarse sweep, default 60
+}
+
+export interface OptimizerPoint {
+  price: number;
+  pctChange: number;
+  netARRDelta: number;
+  expectedChurn90d: number; // across existing subscribers, after the rollout
+  churnIncrease: number;
+  retainedSubs: number;
+  violations: ConstraintId[];
+}
+
+export interface ConstraintStatus {
+  id: ConstraintId;
+  limit: number;
+  value: number; // value at the optimal point
+  binding: boolean; // relaxing this constraint alone would improve the objective
+}
+
+export interface PriceOptimizerResult {
+  inputs: PriceOptimizerInput;
+  currentPrice: number;
+  optimal: OptimizerPoint | null; // null when no candidate satisfies every constraint
+  constraints: ConstraintStatus[];
+  bindingConstraints: ConstraintId[];
+  frontier: OptimizerPoint[]; // feasible points not dominated on (higher ARR, lower churn), by price
+  evaluated: OptimizerPoint[];
+}
+
+// Without an explicit price-change limit, search from -50% to +100% of the current price
+const DEFAULT_SEARCH_RANGE: [number, number] = [-0.5, 1.0];
+const DEFAULT_STEPS = 60;
+const REFINE_STEPS = 10;
+
+function constraintValue(id: ConstraintId, point: OptimizerPoint): number {
+  switch (id) {
+    case "maxChurnIncrease": return point.churnIncrease;
+    case "minSubscribers": return point.retainedSubs;
+    case "maxPriceChangePct": return Math.abs(point.pctChange);
+    case "priceFloor": return point.price;
+    case "minARRDelta": return point.netARRDelta;
+  }
+}
+
+function violates(id: ConstraintId, limit: number, point: OptimizerPoint): boolean {
+  const value = constraintValue(id, point);
+  // Upper bounds: churn increase and price change; everything else is a lower bound
+  const isUpperBound = id === "maxChurnIncrease" || id === "maxPriceChangePct";
+  const tolerance = 1e-9;
+  return isUpperBound ? value > limit + tolerance : value < limit - tolerance;
+}
+
+// Candidate with the best objective value, ties broken toward the smaller price change
+function best(points: OptimizerPoint[], objective: OptimizerObjective): OptimizerPoint | null {
+  let winner: OptimizerPoint | null = null;
+  for (const point of points) {
+    if (!winner) {
+      winner = point;
+      continue;
+    }
+    const score = objective === "maxARR" ? point.netARRDelta : -point.expectedChurn90d;
+    const winnerScore = objective === "maxARR" ? winner.netARRDelta : -winner.expectedChurn90d;
+    if (score > winnerScore + 1e-9 || (Math.abs(score - winnerScore) <= 1e-9 && Math.abs(point.pctChange) < Math.abs(winner.pctChange))) {
+      winner = point;
+    }
+  }
+  return winner;
+}
+
+function paretoFrontier(points: OptimizerPoint[]): OptimizerPoint[] {
+  return points
+    .filter(p => !points.some(q =>
+      q !== p &&
+      q.netARRDelta >= p.netARRDelta &&
+      q.expectedChurn90d <= p.expectedChurn90d &&
+      (q.netARRDelta > p.netARRDelta || q.expectedChurn90d < p.expectedChurn90d)
+    ))
+    .sort((a, b) => a.price - b.price);
+}
+
+function charmPrices(min: number, max: number): number[] {
+  const prices: number[] = [];
+  for (let whole = Math.max(0, Math.floor(min)); whole <= Math.ceil(max); whole++) {
+    const price = whole + 0.99;
+    if (price >= min && price <= max) prices.push(price);
+  }
+  return prices;
+}
+
+/**
+ * Search for the best price under business guardrails.
+ *
+ * Candidates come from a sweep over the allowed price range (or every .99 price when charm pricing
+ * is on), followed by a finer sweep around the best feasible candidate. Each candidate is a full
+ * simulate() run without the bootstrap. A constraint is reported as binding when dropping it alone
+ * would let the optimizer reach a better objective among the evaluated candidates.
+ *
+ * `onProgress` receives the number of simulations run so far and the planned total.
+ */
+export function optimizePrice(
+  dataset: Dataset,
+  input: PriceOptimizerInput,
+  onProgress?: (completed: number, total: number) => void
+): PriceOptimizerResult {
+  const plan = getDatasetIndex(dataset).planById.get(input.planId);
+  if (!plan) {
+    throw new Error(`Plan not found: ${input.planId}`);
+  }
+
+  const currentPrice = plan.currentPriceMonthly;
+  const { constraints } = input;
+  const activeConstraints = (Object.keys(CONSTRAINT_LABELS) as ConstraintId[])
+    .filter(id => constraints[id] !== undefined && !isNaN(constraints[id]!));
+
+  // The price-change limit narrows the search range itself; it is still checked per point so it can be reported
+  const searchRange = constraints.maxPriceChangePct !== undefined
+    ? [Math.max(-constraints.maxPriceChangePct, -0.95), constraints.maxPriceChangePct]
+    : DEFAULT_SEARCH_RANGE;
+  const minPrice = Math.max(currentPrice * (1 + searchRange[0]), 0.01);
+  const maxPrice = currentPrice * (1 + searchRange[1]);
+
+  const steps = input.steps ?? DEFAULT_STEPS;
+  const candidates = input.charmPricing ? charmPrices(minPrice, maxPrice) : [];
+  // Coarse sweep, current price and refinement; cached prices still count so the total is reached
+  const plannedRuns = input.charmPricing ? candidates.length : steps + 2 + REFINE_STEPS + 1;
+  let completedRuns = 0;
+
+  const evaluatedByPrice = new Map<string, OptimizerPoint>();
+  const simulateAt = (price: number): OptimizerPoint | null => {
+    const key = price.toFixed(4);
+    const cached = evaluatedByPrice.get(key);
+    if (cached) return cached;
+    try {
+      const result = simulate(dataset, {
+        merchantId: input.merchantId,
+        planId: input.planId,
+        newPriceMonthly: price,
+        useGlobalBenchmarks: input.useGlobalBenchmarks,
+        estimator: input.estimator,
+        recencyHalfLifeDays: input.recencyHalfLifeDays,
+        rollout: input.rollout,
+        renewalDistribution: input.renewalDistribution,
+        bootstrap: { iterations: 0 },
+      });
+      // Only existing subscribers moved to the new price see the extra churn, as in the ARR objective,
+      // so churn, its constraint and the retained subscribers all follow the rollout's exposure
+      const churnIncrease = result.rollout.existingExposedShare * (result.expectedChurn90d - result.baselineChurn90d);
+      const point: OptimizerPoint = {
+        price,
+        pctChange: (price - currentPrice) / currentPrice,
+        netARRDelta: result.netARRDelta,
+        expectedChurn90d: result.baselineChurn90d + churnIncrease,
+        churnIncrease,
+        retainedSubs: plan.activeSubs * (1 - Math.max(churnIncrease, 0)),
+        violations: [],
+      };
+      point.violations = activeConstraints.filter(id => violates(id, constraints[id]!, point));
+      evaluatedByPrice.set(key, point);
+      return point;
+    } catch (error) {
+      console.warn(`Simulation failed for price ${price}:`, error);
+      return null;
+    }
+  };
+  const evaluate = (price: number): OptimizerPoint | null => {
+    const point = simulateAt(price);
+    completedRuns++;
+    onProgress?.(Math.min(completedRuns, plannedRuns), plannedRuns);
+    return point;
+  };
+
+  if (input.charmPricing) {
+    candidates.forEach(evaluate);
+  } else {
+    const stepSize = (maxPrice - minPrice) / steps;
+    for (let i = 0; i <= steps; i++) evaluate(minPrice + stepSize * i);
+    evaluate(currentPrice);
+
+    // Refine between the neighbours of the best feasible coarse candidate
+    const coarseBest = best([...evaluatedByPrice.values()].filter(p => p.violations.length === 0), input.objective);
+    if (coarseBest) {
+      const low = Math.max(minPrice, coarseBest.price - stepSize);
+      const high = Math.min(maxPrice, coarseBest.price + stepSize);
+      for (let i = 0; i <= REFINE_STEPS; i++) evaluate(low + ((high - low) / REFINE_STEPS) * i);
+    }
+  }
+
+  const evaluated = [...evaluatedByPrice.values()].sort((a, b) => a.price - b.price);
+  const feasible = evaluated.filter(p => p.violations.length === 0);
+  const optimal = best(feasible, input.objective);
+
+  const objectiveScore = (point: OptimizerPoint | null) =>
+    point === null ? -Infinity : input.objective === "maxARR" ? point.netARRDelta : -point.expectedChurn90d;
+
+  const constraintStatuses: ConstraintStatus[] = activeConstraints.map(id => {
+    const limit = constraints[id]!;
+    let binding: boolean;
+    if (id === "maxPriceChangePct") {
+      // Nothing beyond the price-change limit is evaluated, so treat it as binding when the optimum sits on the edge
+      binding = optimal !== null && Math.abs(optimal.pctChange) >= limit - 1e-3;
+    } else {
+      const relaxed = best(evaluated.filter(p => p.violations.every(v => v === id)), input.objective);
+      binding = objectiveScore(relaxed) > objectiveScore(optimal) + 1e-6;
+    }
+    return {
+      id,
+      limit,
+      value: optimal ? constraintValue(id, optimal) : NaN,
+      binding,
+    };
+  });
+
+  return {
+    inputs: input,
+    currentPrice,
+    optimal,
+    constraints: constraintStatuses,
+    bindingConstraints: constraintStatuses.filter(c => c.binding).map(c => c.id),
+    frontier: paretoFrontier(feasible),
+    evaluated,
+  };
+}
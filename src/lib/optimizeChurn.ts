@@ -0,0 +1,133 @@
+import { simulateChurn, isBaselineDunningConfig, type ChurnSimulationInput, type ChurnSimulationResult, type LeverConfig } from './simulateChurn';
+import { getDatasetIndex } from '../data/datasetIndex';
+import type { Dataset, InterventionType, IncentiveStrength } from '../data/types';
+
+export interface ChurnLeverOptimizationInput {
+  merchantId: string;
+  planId: string;
+  topN?: number; // configurations returned, default 10
+  minEventsPerLever?: number; // comparable events each non-baseline lever needs to be considered, default 5
+  incentiveTerms?: ChurnSimulationInput["incentiveTerms"];
+}
+
+export interface ChurnLeverCandidate {
+  config: LeverConfig;
+  savedSubs: number;
+  grossRecoveredARR: number;
+  incentiveCost: number;
+  netRecoveredARR: number;
+  aggressive: boolean;
+  score: number; // net recovered ARR after the aggressiveness penalty; candidates are ranked by this
+  confidence: "High" | "Med" | "Low";
+}
+
+export interface ChurnLeverOptimizationResult {
+  inputs: ChurnLeverOptimizationInput;
+  evaluated: number;
+  insufficientEvidence: number; // configurations skipped by minEventsPerLever
+  candidates: ChurnLeverCandidate[]; // best first
+}
+
+const DEFAULT_TOP_N = 10;
+const DEFAULT_MIN_EVENTS_PER_LEVER = 5;
+
+// Share of net recovered ARR an aggressive configuration gives up in the ranking
+export const AGGRESSIVE_PENALTY = 0.25;
+
+// Search space, matching the ranges the Churn page's controls allow
+const INTERVENTION_TYPES: InterventionType[] = ["none", "survey", "pause", "incentive"];
+const INCENTIVE_STRENGTHS: IncentiveStrength[] = ["light", "medium", "heavy"];
+const RETRIES = range(3, 8);
+const RETRY_WINDOW_DAYS = range(7, 30);
+const MAX_PAUSE_CYCLES = range(1, 6);
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function leverAOptions(): LeverConfig["leverA"][] {
+  return INTERVENTION_TYPES.flatMap<LeverConfig["leverA"]>(type =>
+    type === "incentive"
+      ? INCENTIVE_STRENGTHS.map(incentiveStrength => ({ type, incentiveStrength }))
+      : [{ type }]
+  );
+}
+
+function leverCOptions(): LeverConfig["leverC"][] {
+  return [
+    { pauseEnabled: false, maxPauseCycles: 1 },
+    ...MAX_PAUSE_CYCLES.map(maxPauseCycles => ({ pauseEnabled: true, maxPauseCycles })),
+  ];
+}
+
+// Lever rates from a handful of events are mostly noise, and the search would otherwise favor them
+function hasEnoughEvidence(config: LeverConfig, result: ChurnSimulationResult, minEvents: number): boolean {
+  const { leverA, leverB, leverC } = config;
+  return (leverA.type === "none" || result.evidence.comparableCancellationEvents >= minEvents) &&
+    (isBaselineDunningConfig(leverB) || result.evidence.comparablePaymentEvents >= minEvents) &&
+    (!leverC.pauseEnabled || result.evidence.comparablePauseEvents >= minEvents);
+}
+
+/**
+ * Try every lever combination and rank them by recovered ARR net of incentive cost.
+ * Configurations that trigger the churn simulator's aggressiveness warning are penalized by
+ * AGGRESSIVE_PENALTY, and those resting on too few comparable events are skipped.
+ * Progress is reported once per cancel-flow/pause combination.
+ */
+export function optimizeChurnLevers(
+  dataset: Dataset,
+  input: ChurnLeverOptimizationInput,
+  onProgress?: (completed: number, total: number) => void
+): ChurnLeverOptimizationResult {
+  const plan = getDatasetIndex(dataset).planById.get(input.planId);
+  if (!plan) {
+    throw new Error(`Plan not found: ${input.planId}`);
+  }
+  const topN = input.topN ?? DEFAULT_TOP_N;
+  const minEvents = input.minEventsPerLever ?? DEFAULT_MIN_EVENTS_PER_LEVER;
+
+  const leverBOptions: LeverConfig["leverB"][] = RETRIES.flatMap(retries =>
+    RETRY_WINDOW_DAYS.flatMap(retryWindowDays =>
+      [false, true].map(fallbackEnabled => ({ retries, retryWindowDays, fallbackEnabled }))
+    )
+  );
+  const outerOptions = leverAOptions().flatMap(leverA => leverCOptions().map(leverC => ({ leverA, leverC })));
+
+  const candidates: ChurnLeverCandidate[] = [];
+  let insufficientEvidence = 0;
+  outerOptions.forEach(({ leverA, leverC }, i) => {
+    for (const leverB of leverBOptions) {
+      const config: LeverConfig = { leverA, leverB, leverC };
+      const result = simulateChurn(dataset, {
+        merchantId: input.merchantId,
+        planId: input.planId,
+        ...config,
+        incentiveTerms: input.incentiveTerms,
+      });
+      if (!hasEnoughEvidence(config, result, minEvents)) {
+        insufficientEvidence++;
+        continue;
+      }
+      const netRecoveredARR = result.recoveredARR;
+      candidates.push({
+        config,
+        savedSubs: result.savedSubs,
+        grossRecoveredARR: result.grossRecoveredARR,
+        incentiveCost: result.incentiveCost,
+        netRecoveredARR,
+        aggressive: result.aggressive,
+        score: result.aggressive ? netRecoveredARR - Math.abs(netRecoveredARR) * AGGRESSIVE_PENALTY : netRecoveredARR,
+        confidence: result.confidence,
+      });
+    }
+    onProgress?.(i + 1, outerOptions.length);
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+  return {
+    inputs: input,
+    evaluated: candidates.length + insufficientEvidence,
+    insufficientEvidence,
+    candidates: candidates.slice(0, topN),
+  };
+}
@@ -0,0 +1,225 @@
+import { simulate, type SimulationResult } from './simulate';
+import { getDatasetIndex } from '../data/datasetIndex';
+import type { Dataset, Plan } from '../data/types';
+
+// Default share of a plan's price-driven leavers who downgrade to the next cheaper plan instead of cancelling
+export const DEFAULT_DOWNGRADE_SHARE = 0.30;
+// Upgrading is rarer: default share who move up to the next pricier plan when it becomes relatively cheaper
+export const DEFAULT_UPGRADE_SHARE = 0.10;
+
+export interface PortfolioPriceChange {
+  planId: string;
+  newPriceMonthly: number;
+}
+
+export interface PlanMigration {
+  fromPlanId: string;
+  toPlanId: string;
+  share: number; // 0-1, share of fromPlan's subscribers driven off by toPlan becoming relatively cheaper who move to toPlan
+}
+
+export interface PortfolioSimulationInput {
+  merchantId: string;
+  priceChanges: PortfolioPriceChange[];
+  migrations: PlanMigration[];
+  useGlobalBenchmarks: boolean;
+}
+
+export interface PortfolioPlanResult {
+  planId: string;
+  planName: string;
+  oldPriceMonthly: number;
+  newPriceMonthly: number;
+  activeSubs: number;
+  simulation?: SimulationResult; // only for plans with a price change
+  lostSubs: number; // price-driven churners (before migration)
+  migratedOutSubs: number;
+  migratedInSubs: number;
+  canceledSubs: number;
+  retainedSubs: number; // subscribers still on the plan, before counting those who migrated in
+  standaloneARRDelta: number; // simulate() result for this plan in isolation
+  migrationARRDelta: number; // ARR from subscribers migrating in, less ARR from those who left without churning
+  netARRDelta: number;
+}
+
+export interface PortfolioFlow {
+  fromPlanId: string;
+  to: string; // planId, or "canceled"
+  subs: number;
+}
+
+export interface PortfolioSimulationResult {
+  inputs: PortfolioSimulationInput;
+  plans: PortfolioPlanResult[];
+  flows: PortfolioFlow[];
+  baselineARR: number;
+  netARRDelta: number;
+  standaloneARRDelta: number; // sum of per-plan deltas if every lost subscriber canceled
+}
+
+function planMRRPerSub(plan: Plan, priceMonthly: number): number {
+  return priceMonthly + plan.arpuAddonsMonthly;
+}
+
+/**
+ * Default migration matrix: subscribers of each plan downgrade to the next cheaper plan and upgrade
+ * to the next pricier plan of the same merchant and billing interval.
+ */
+export function defaultMigrations(dataset: Dataset, merchantId: string, planIds: string[]): PlanMigration[] {
+  const plans = getDatasetIndex(dataset).plansByMerchant.get(merchantId) ?? [];
+  const migrations: PlanMigration[] = [];
+  for (const planId of planIds) {
+    const plan = plans.find(p => p.id === planId);
+    if (!plan) continue;
+    const sameInterval = plans.filter(p => p.interval === plan.interval);
+    const cheaper = sameInterval
+      .filter(p => p.currentPriceMonthly < plan.currentPriceMonthly)
+      .sort((a, b) => b.currentPriceMonthly - a.currentPriceMonthly)[0];
+    const pricier = sameInterval
+      .filter(p => p.currentPriceMonthly > plan.currentPriceMonthly)
+      .sort((a, b) => a.currentPriceMonthly - b.currentPriceMonthly)[0];
+    if (cheaper) {
+      migrations.push({ fromPlanId: plan.id, toPlanId: cheaper.id, share: DEFAULT_DOWNGRADE_SHARE });
+    }
+    if (pricier) {
+      migrations.push({ fromPlanId: plan.id, toPlanId: pricier.id, share: DEFAULT_UPGRADE_SHARE });
+    }
+  }
+  return migrations;
+}
+
+/**
+ * Simulate price changes across several plans of one merchant.
+ *
+ * Each changed plan is run through simulate() on its own. Migration is driven by relative prices:
+ * when a destination plan becomes cheaper relative to a source plan (the source went up, the
+ * destination came down, or both), the source loses the subscribers simulate() predicts for an
+ * equivalent price increase, and the migration share of them switch. Switchers are drawn first from
+ * the source's own price-driven churners, who would otherwise cancel; the rest are subscribers who
+ * would have stayed. Migrants pay the destination's new price and churn at its price-driven rate.
+ */
+export function simulatePortfolio(dataset: Dataset, input: PortfolioSimulationInput): PortfolioSimulationResult {
+  const plans = getDatasetIndex(dataset).plansByMerchant.get(input.merchantId) ?? [];
+  if (plans.length === 0) {
+    throw new Error(`No plans found for merchant: ${input.merchantId}`);
+  }
+
+  const newPrices = new Map<string, number>();
+  for (const change of input.priceChanges) {
+    const plan = plans.find(p => p.id === change.planId);
+    if (!plan) {
+      throw new Error(`Plan not found: ${change.planId}`);
+    }
+    newPrices.set(plan.id, change.newPriceMonthly);
+  }
+
+  for (const migration of input.migrations) {
+    if (!plans.some(p => p.id === migration.fromPlanId) || !plans.some(p => p.id === migration.toPlanId)) {
+      throw new Error(`Migration references a plan outside merchant ${input.merchantId}: ${migration.fromPlanId} -> ${migration.toPlanId}`);
+    }
+    if (migration.fromPlanId === migration.toPlanId) {
+      throw new Error(`Migration cannot target its own plan: ${migration.fromPlanId}`);
+    }
+  }
+
+  // Share of a plan's subscribers lost to price-driven churn at a given price, from simulate()
+  const simulations = new Map<string, SimulationResult>();
+  const simulateAt = (plan: Plan, newPriceMonthly: number): SimulationResult => {
+    const key = `${plan.id}|${newPriceMonthly}`;
+    let simulation = simulations.get(key);
+    if (!simulation) {
+      simulation = simulate(dataset, {
+        merchantId: input.merchantId,
+        planId: plan.id,
+        newPriceMonthly,
+        useGlobalBenchmarks: input.useGlobalBenchmarks,
+      });
+      simulations.set(key, simulation);
+    }
+    return simulation;
+  };
+  const lostShare = (simulation: SimulationResult) => Math.max(simulation.expectedChurn90d - simulation.baselineChurn90d, 0);
+
+  const results = new Map<string, PortfolioPlanResult>();
+  for (const plan of plans) {
+    const newPriceMonthly = newPrices.get(plan.id) ?? plan.currentPriceMonthly;
+    const simulation = newPrices.has(plan.id) ? simulateAt(plan, newPriceMonthly) : undefined;
+    const lostSubs = simulation ? plan.activeSubs * lostShare(simulation) : 0;
+    results.set(plan.id, {
+      planId: plan.id,
+      planName: plan.name,
+      oldPriceMonthly: plan.currentPriceMonthly,
+      newPriceMonthly,
+      activeSubs: plan.activeSubs,
+      simulation,
+      lostSubs,
+      migratedOutSubs: 0,
+      migratedInSubs: 0,
+      canceledSubs: lostSubs,
+      retainedSubs: plan.activeSubs - lostSubs,
+      standaloneARRDelta: simulation?.netARRDelta ?? 0,
+      migrationARRDelta: 0,
+      netARRDelta: simulation?.netARRDelta ?? 0,
+    });
+  }
+
+  const planById = new Map(plans.map(p => [p.id, p]));
+  const flows: PortfolioFlow[] = [];
+  for (const from of results.values()) {
+    const fromPlan = planById.get(from.planId)!;
+    const outgoing = input.migrations.filter(m => m.fromPlanId === from.planId && m.share > 0);
+    // Shares above 100% in total are scaled down so we never migrate more subscribers than leave
+    const totalShare = outgoing.reduce((sum, m) => sum + m.share, 0);
+    const scale = totalShare > 1 ? 1 / totalShare : 1;
+
+    const moves: Array<{ to: PortfolioPlanResult; subs: number }> = [];
+    for (const migration of outgoing) {
+      const to = results.get(migration.toPlanId)!;
+      // How much more the source now costs relative to the destination; the source loses the
+      // subscribers it would lose to a price increase of that size
+      const relativeIncrease = (from.newPriceMonthly / from.oldPriceMonthly) / (to.newPriceMonthly / to.oldPriceMonthly) - 1;
+      if (relativeIncrease <= 0) continue;
+      const leaving = from.activeSubs * lostShare(simulateAt(fromPlan, fromPlan.currentPriceMonthly * (1 + relativeIncrease)));
+      const subs = leaving * migration.share * scale;
+      if (subs > 0) moves.push({ to, subs });
+    }
+
+    // Switchers come first from the source's own churners; the rest would otherwise have stayed
+    const switching = moves.reduce((sum, move) => sum + move.subs, 0);
+    const fromChurners = Math.min(switching, from.lostSubs);
+    const fromRetained = Math.min(switching - fromChurners, from.retainedSubs);
+    from.migratedOutSubs = fromChurners + fromRetained;
+    from.canceledSubs = from.lostSubs - fromChurners;
+    from.retainedSubs -= fromRetained;
+    const leftARR = fromRetained * planMRRPerSub(fromPlan, from.newPriceMonthly) * 12;
+    from.migrationARRDelta -= leftARR;
+    from.netARRDelta -= leftARR;
+
+    const movedShare = switching > 0 ? from.migratedOutSubs / switching : 0;
+    for (const move of moves) {
+      const subs = move.subs * movedShare;
+      const toPlan = planById.get(move.to.planId)!;
+      // Migrants face the destination's new price like its existing subscribers do
+      const destinationChurn = move.to.simulation ? lostShare(move.to.simulation) : 0;
+      const arrDelta = subs * (1 - destinationChurn) * planMRRPerSub(toPlan, move.to.newPriceMonthly) * 12;
+      move.to.migratedInSubs += subs;
+      move.to.migrationARRDelta += arrDelta;
+      move.to.netARRDelta += arrDelta;
+      flows.push({ fromPlanId: from.planId, to: move.to.planId, subs });
+    }
+
+    if (from.canceledSubs > 0) {
+      flows.push({ fromPlanId: from.planId, to: "canceled", subs: from.canceledSubs });
+    }
+  }
+
+  const planResults = [...results.values()];
+  return {
+    inputs: input,
+    plans: planResults,
+    flows,
+    baselineARR: plans.reduce((sum, p) => sum + p.activeSubs * planMRRPerSub(p, p.currentPriceMonthly) * 12, 0),
+    netARRDelta: planResults.reduce((sum, p) => sum + p.netARRDelta, 0),
+    standaloneARRDelta: planResults.reduce((sum, p) => sum + p.standaloneARRDelta, 0),
+  };
+}
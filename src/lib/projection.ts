@@ -0,0 +1,196 @@
+import { clamp } from './utils';
+
+export const DEFAULT_PROJECTION_MONTHS = 12;
+
+// How quickly the extra churn from a price change fades back to baseline after the first 90 days
+const EXCESS_CHURN_HALF_LIFE_MONTHS = 3;
+
+// Reporting horizons (days) for cumulative revenue
+export const PROJECTION_HORIZONS_DAYS = [30, 90, 180, 365];
+
+export interface CohortProjectionInput {
+  activeSubs: number;
+  oldPriceMonthly: number;
+  newPriceMonthly: number;
+  addonsMonthly: number;
+  baselineChurn90d: number;
+  expectedChurn90d: number;
+  months?: number;
+  // Annual plans: share of subscribers renewing in each of the next 12 months. When set, subscribers
+  // only churn and only see the new price at renewal
+  renewalShareByMonth?: number[];
+}
+
+export interface CohortProjectionMonth {
+  month: number; // 1-based month after the price change
+  baselineSubs: number;
+  scenarioSubs: number;
+  baselineMRR: number;
+  scenarioMRR: number;
+  mrrDelta: number;
+  cumulativeRevenueDelta: number;
+}
+
+export interface CohortProjectionHorizon {
+  days: number;
+  cumulativeRevenueDelta: number;
+}
+
+export interface CohortProjection {
+  months: CohortProjectionMonth[];
+  horizons: CohortProjectionHorizon[];
+  baselineMonthlyChurn: number;
+  initialScenarioMonthlyChurn: number;
+}
+
+// Convert a 90-day churn rate to an equivalent constant monthly rate
+export function monthlyChurnFrom90d(churn90d: number): number {
+  return 1 - Math.pow(1 - clamp(churn90d, 0, 0.999), 1 / 3);
+}
+
+/**
+ * Project the existing subscriber cohort month by month after a price change.
+ *
+ * The baseline cohort churns at the plan's baseline rate throughout. The scenario cohort churns
+ * at the expected 90-day rate for the first three months, after which the excess over baseline
+ * (positive for increases, negative for cuts) decays with a fixed half-life. Revenue is the sum
+ * of monthly MRR, so the cumulative delta reflects when subscribers actually leave rather than
+ * a run-rate multiplied by 12.
+ */
+export function projectCohort(input: CohortProjectionInput): CohortProjection {
+  if (input.renewalShareByMonth) return projectAnnualCohort(input, input.renewalShareByMonth);
+
+  const monthCount = Math.max(input.months ?? DEFAULT_PROJECTION_MONTHS, 12);
+  const baselineMonthlyChurn = monthlyChurnFrom90d(input.baselineChurn90d);
+  const initialScenarioMonthlyChurn = monthlyChurnFrom90d(input.expectedChurn90d);
+  const excessChurn = initialScenarioMonthlyChurn - baselineMonthlyChurn;
+
+  const baselineRevenuePerSub = input.oldPriceMonthly + input.addonsMonthly;
+  const scenarioRevenuePerSub = input.newPriceMonthly + input.addonsMonthly;
+
+  const months: CohortProjectionMonth[] = [];
+  let baselineSubs = input.activeSubs;
+  let scenarioSubs = input.activeSubs;
+  let cumulativeRevenueDelta = 0;
+
+  for (let month = 1; month <= monthCount; month++) {
+    const decay = month <= 3 ? 1 : Math.pow(0.5, (month - 3) / EXCESS_CHURN_HALF_LIFE_MONTHS);
+    const scenarioChurn = clamp(baselineMonthlyChurn + excessChurn * decay, 0, 1);
+
+    // Revenue is billed on subscribers active at the start of the month
+    const baselineMRR = baselineSubs * baselineRevenuePerSub;
+    const scenarioMRR = scenarioSubs * scenarioRevenuePerSub;
+    const mrrDelta = scenarioMRR - baselineMRR;
+    cumulativeRevenueDelta += mrrDelta;
+
+    months.push({
+      month,
+      baselineSubs,
+      scenarioSubs,
+      baselineMRR,
+      scenarioMRR,
+      mrrDelta,
+      cumulativeRevenueDelta,
+    });
+
+    baselineSubs *= 1 - baselineMonthlyChurn;
+    scenarioSubs *= 1 - scenarioChurn;
+  }
+
+  return { months, horizons: projectionHorizons(months), baselineMonthlyChurn, initialScenarioMonthlyChurn };
+}
+
+// Cumulative revenue at each reporting horizon, interpolating within the month it falls in
+export function projectionHorizons(months: CohortProjectionMonth[]): CohortProjectionHorizon[] {
+  return PROJECTION_HORIZONS_DAYS
+    .filter(days => days / 30.4375 <= months.length)
+    .map(days => {
+      const monthsElapsed = days / 30.4375;
+      const whole = Math.floor(monthsElapsed);
+      const before = whole > 0 ? months[whole - 1].cumulativeRevenueDelta : 0;
+      const partial = whole < months.length ? months[whole].mrrDelta * (monthsElapsed - whole) : 0;
+      return { days, cumulativeRevenueDelta: before + partial };
+    });
+}
+
+/**
+ * Annual-plan variant of projectCohort. Each renewal-month batch keeps the old price and cannot
+ * churn until its renewal date; at the first renewal the scenario batch churns at the expected
+ * 90-day rate and moves to the new price, later renewals churn at the baseline rate in both paths.
+ * MRR is the monthly-equivalent of the annual charge.
+ */
+function projectAnnualCohort(input: CohortProjectionInput, renewalShareByMonth: number[]): CohortProjection {
+  const monthCount = Math.max(input.months ?? DEFAULT_PROJECTION_MONTHS, 12);
+  const totalShare = renewalShareByMonth.reduce((sum, share) => sum + share, 0) || 1;
+
+  const baselineRevenuePerSub = input.oldPriceMonthly + input.addonsMonthly;
+  const scenarioRevenuePerSub = input.newPriceMonthly + input.addonsMonthly;
+
+  const baselineSubsByMonth = new Array<number>(monthCount).fill(0);
+  const scenarioSubsByMonth = new Array<number>(monthCount).fill(0);
+  const scenarioMRRByMonth = new Array<number>(monthCount).fill(0);
+
+  renewalShareByMonth.forEach((share, index) => {
+    const renewalMonth = index + 1;
+    let baselineSubs = input.activeSubs * share / totalShare;
+    let scenarioSubs = baselineSubs;
+    let onNewPrice = false;
+
+    for (let month = 1; month <= monthCount; month++) {
+      if (month >= renewalMonth && (month - renewalMonth) % 12 === 0) {
+        baselineSubs *= 1 - input.baselineChurn90d;
+        scenarioSubs *= 1 - (onNewPrice ? input.baselineChurn90d : input.expectedChurn90d);
+        onNewPrice = true;
+      }
+      baselineSubsByMonth[month - 1] += baselineSubs;
+      scenarioSubsByMonth[month - 1] += scenarioSubs;
+      scenarioMRRByMonth[month - 1] += scenarioSubs * (onNewPrice ? scenarioRevenuePerSub : baselineRevenuePerSub);
+    }
+  });
+
+  let cumulativeRevenueDelta = 0;
+  const months: CohortProjectionMonth[] = baselineSubsByMonth.map((baselineSubs, index) => {
+    const baselineMRR = baselineSubs * baselineRevenuePerSub;
+    const scenarioMRR = scenarioMRRByMonth[index];
+    const mrrDelta = scenarioMRR - baselineMRR;
+    cumulativeRevenueDelta += mrrDelta;
+    return {
+      month: index + 1,
+      baselineSubs,
+      scenarioSubs: scenarioSubsByMonth[index],
+      baselineMRR,
+      scenarioMRR,
+      mrrDelta,
+      cumulativeRevenueDelta,
+    };
+  });
+
+  return {
+    months,
+    horizons: projectionHorizons(months),
+    baselineMonthlyChurn: monthlyChurnFrom90d(input.baselineChurn90d),
+    initialScenarioMonthlyChurn: monthlyChurnFrom90d(input.expectedChurn90d),
+  };
+}
+
+export type RenewalDistribution = "even" | "createdAt";
+
+/**
+ * Share of an annual plan's subscribers renewing in each of the next 12 months.
+ * "even" spreads renewals uniformly. "createdAt" assumes signups were spread uniformly from the
+ * plan's creation to `asOf`, so a plan younger than a year only renews in the months that fall on
+ * an anniversary of that window.
+ */
+export function renewalSharesByMonth(distribution: RenewalDistribution, createdAt: Date, asOf: Date): number[] {
+  const shares = new Array<number>(12).fill(0);
+  const ageMonths = (asOf.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24 * 30.4375);
+  if (distribution === "even" || ageMonths >= 12) return shares.fill(1 / 12);
+
+  // A subscriber who joined j months ago (0 <= j < age) renews in month 12 - j
+  const windowMonths = Math.max(ageMonths, 1);
+  for (let monthsAgo = 0; monthsAgo < 12; monthsAgo++) {
+    const overlap = clamp(windowMonths - monthsAgo, 0, 1);
+    shares[11 - monthsAgo] = overlap / windowMonths;
+  }
+  return shares;
+}
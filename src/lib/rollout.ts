@@ -0,0 +1,171 @@
+import { clamp } from './utils';
+import { monthlyChurnFrom90d, projectionHorizons, type CohortProjection, type CohortProjectionInput, type CohortProjectionMonth } from './projection';
+
+// all: every existing subscriber moves to the new price immediately
+// grandfather: a share of existing subscribers keeps the old price
+// newSignupsOnly: existing subscribers keep the old price; only new signups pay the new price
+// phased: existing subscribers move over in equal monthly batches
+export type RolloutMode = "all" | "grandfather" | "newSignupsOnly" | "phased";
+
+export const ROLLOUT_MODE_LABELS: Record<RolloutMode, string> = {
+  all: "All subscribers immediately",
+  grandfather: "Grandfather a share of existing",
+  newSignupsOnly: "New signups only",
+  phased: "Phased rollout",
+};
+
+export const DEFAULT_GRANDFATHERED_SHARE = 0.5;
+export const DEFAULT_PHASE_MONTHS = 3;
+
+export interface RolloutOptions {
+  mode: RolloutMode;
+  grandfatheredShare?: number; // 0-1, grandfather mode only
+  phaseMonths?: number; // phased mode only
+}
+
+export interface RolloutCohort {
+  cohort: "existingExposed" | "grandfathered" | "newSignups";
+  subs: number;
+  churn90d: number;
+  arrDelta: number;
+}
+
+export interface RolloutResult {
+  mode: RolloutMode;
+  existingExposedShare: number; // share of existing subscribers on the new price once rollout completes
+  phaseMonths?: number;
+  newSignupsPerMonth: number;
+  existingARRDelta: number;
+  newSubscriberARRDelta: number;
+  cohorts: RolloutCohort[];
+}
+
+// Share of existing subscribers who end up paying the new price
+export function existingExposedShare(options: RolloutOptions): number {
+  switch (options.mode) {
+    case "grandfather":
+      return 1 - clamp(options.grandfatheredShare ?? DEFAULT_GRANDFATHERED_SHARE, 0, 1);
+    case "newSignupsOnly":
+      return 0;
+    default:
+      return 1;
+  }
+}
+
+export function phaseMonthsFor(options: RolloutOptions): number {
+  return options.mode === "phased" ? Math.max(1, Math.round(options.phaseMonths ?? DEFAULT_PHASE_MONTHS)) : 1;
+}
+
+/**
+ * New signups are assumed to replace baseline churn (acquisition unchanged), so the plan adds
+ * activeSubs * baselineMonthlyChurn subscribers a month. They only ever see the new price, so they
+ * churn at the baseline rate. Returns the run-rate ARR delta from the signups still active after a year.
+ * The existing-subscriber run-rate already counts exposed churners as replaced at the new price, so
+ * signups only add ARR where they replace subscribers who keep the old price: grandfathered ones, or
+ * everyone under newSignupsOnly. A phased rollout exposes everyone by run-rate, so it adds none.
+ */
+export function newSubscriberARRDelta(
+  cohort: CohortProjectionInput,
+  options: RolloutOptions
+): { newSignupsPerMonth: number; arrDelta: number } {
+  const baselineMonthlyChurn = monthlyChurnFrom90d(cohort.baselineChurn90d);
+  const newSignupsPerMonth = cohort.activeSubs * baselineMonthlyChurn;
+  const activeAfterYear = cohort.activeSubs * (1 - Math.pow(1 - baselineMonthlyChurn, 12));
+  const unexposedShare = 1 - existingExposedShare(options);
+  return {
+    newSignupsPerMonth,
+    arrDelta: unexposedShare * activeAfterYear * (cohort.newPriceMonthly - cohort.oldPriceMonthly) * 12,
+  };
+}
+
+export function summarizeRollout(
+  options: RolloutOptions,
+  cohort: CohortProjectionInput,
+  existingARRDelta: number
+): RolloutResult {
+  const share = existingExposedShare(options);
+  const newSubscribers = newSubscriberARRDelta(cohort, options);
+
+  const cohorts: RolloutCohort[] = [];
+  if (share > 0) {
+    cohorts.push({ cohort: "existingExposed", subs: cohort.activeSubs * share, churn90d: cohort.expectedChurn90d, arrDelta: existingARRDelta });
+  }
+  if (share < 1) {
+    cohorts.push({ cohort: "grandfathered", subs: cohort.activeSubs * (1 - share), churn90d: cohort.baselineChurn90d, arrDelta: 0 });
+  }
+  cohorts.push({
+    cohort: "newSignups",
+    subs: newSubscribers.newSignupsPerMonth * 12,
+    churn90d: cohort.baselineChurn90d,
+    arrDelta: newSubscribers.arrDelta,
+  });
+
+  return {
+    mode: options.mode,
+    existingExposedShare: share,
+    phaseMonths: options.mode === "phased" ? phaseMonthsFor(options) : undefined,
+    newSignupsPerMonth: newSubscribers.newSignupsPerMonth,
+    existingARRDelta,
+    newSubscriberARRDelta: newSubscribers.arrDelta,
+    cohorts,
+  };
+}
+
+/**
+ * Re-weight a full-exposure cohort projection for the rollout: grandfathered subscribers follow the
+ * baseline path, phased batches start the scenario path in the month they move over, and new signups
+ * (identical volume in both paths) pay the new price from the month after they join. Pass
+ * `includeNewSignups: false` to follow only the existing subscribers.
+ */
+export function applyRolloutToProjection(
+  projection: CohortProjection,
+  options: RolloutOptions,
+  cohort: CohortProjectionInput,
+  includeNewSignups: boolean = true
+): CohortProjection {
+  const share = existingExposedShare(options);
+  const phases = phaseMonthsFor(options);
+  const newSignupsPerMonth = includeNewSignups ? newSubscriberARRDelta(cohort, options).newSignupsPerMonth : 0;
+  const baselineMonthlyChurn = projection.baselineMonthlyChurn;
+  const full = projection.months;
+
+  let newSubs = 0;
+  let cumulativeRevenueDelta = 0;
+  const months: CohortProjectionMonth[] = full.map(m => {
+    const month = m.month;
+
+    // Existing subscribers on the new price: each batch starts the scenario path from its own month,
+    // scaled by how many of its subscribers survived at baseline churn until then
+    let exposedSubs = 0;
+    let exposedMRR = 0;
+    let unexposedShare = 1 - share;
+    for (let batch = 1; batch <= phases; batch++) {
+      const batchShare = share / phases;
+      if (batch > month) {
+        unexposedShare += batchShare;
+        continue;
+      }
+      const survivedToStart = Math.pow(1 - baselineMonthlyChurn, batch - 1);
+      const path = full[month - batch];
+      exposedSubs += batchShare * survivedToStart * path.scenarioSubs;
+      exposedMRR += batchShare * survivedToStart * path.scenarioMRR;
+    }
+
+    const newSubsBaselineMRR = newSubs * (cohort.oldPriceMonthly + cohort.addonsMonthly);
+    const newSubsScenarioMRR = newSubs * (cohort.newPriceMonthly + cohort.addonsMonthly);
+
+    const baselineSubs = m.baselineSubs + newSubs;
+    const scenarioSubs = exposedSubs + unexposedShare * m.baselineSubs + newSubs;
+    const baselineMRR = m.baselineMRR + newSubsBaselineMRR;
+    const scenarioMRR = exposedMRR + unexposedShare * m.baselineMRR + newSubsScenarioMRR;
+    const mrrDelta = scenarioMRR - baselineMRR;
+    cumulativeRevenueDelta += mrrDelta;
+
+    // Signups during this month are billed from next month
+    newSubs = newSubs * (1 - baselineMonthlyChurn) + newSignupsPerMonth;
+
+    return { month, baselineSubs, scenarioSubs, baselineMRR, scenarioMRR, mrrDelta, cumulativeRevenueDelta };
+  });
+
+  return { ...projection, months, horizons: projectionHorizons(months) };
+}
@@ -0,0 +1,94 @@
+import type { SimulationInput, SimulationResult } from './simulate';
+import type { ChurnSimulationInput, ChurnSimulationResult } from './simulateChurn';
+
+export type Confidence = "High" | "Med" | "Low";
+
+// Headline results shared by price and churn scenarios so they can be compared side by side
+export interface ScenarioMetrics {
+  baselineChurn90d: number;
+  expectedChurn90d: number;
+  mrrDelta: number;
+  arrDelta: number;
+  arrRangeLow: number;
+  arrRangeHigh: number;
+  confidence: Confidence;
+  evidenceCount: number;
+}
+
+interface SavedScenarioBase {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  datasetName: string;
+  merchantId: string;
+  planId: string;
+  planName: string;
+  metrics: ScenarioMetrics;
+}
+
+export type SavedScenario =
+  | (SavedScenarioBase & { kind: "price"; input: SimulationInput })
+  | (SavedScenarioBase & { kind: "churn"; input: ChurnSimulationInput });
+
+export type NewScenario =
+  | Omit<Extract<SavedScenario, { kind: "price" }>, "id" | "savedAt">
+  | Omit<Extract<SavedScenario, { kind: "churn" }>, "id" | "savedAt">;
+
+export const SCENARIO_KIND_LABELS: Record<SavedScenario["kind"], string> = {
+  price: "Price change",
+  churn: "Churn levers",
+};
+
+export const MIN_COMPARED_SCENARIOS = 2;
+export const MAX_COMPARED_SCENARIOS = 4;
+
+export function priceScenarioMetrics(result: SimulationResult): ScenarioMetrics {
+  return {
+    baselineChurn90d: result.baselineChurn90d,
+    expectedChurn90d: result.expectedChurn90d,
+    mrrDelta: result.netMRRDelta,
+    arrDelta: result.netARRDelta,
+    arrRangeLow: result.rangeLow,
+    arrRangeHigh: result.rangeHigh,
+    confidence: result.confidence,
+    evidenceCount: result.evidenceCount,
+  };
+}
+
+// Churn levers lower churn by churnReductionPp percentage points and recover MRR/ARR
+export function churnScenarioMetrics(result: ChurnSimulationResult, baselineChurn90d: number): ScenarioMetrics {
+  return {
+    baselineChurn90d,
+    expectedChurn90d: baselineChurn90d - result.churnReductionPp / 100,
+    mrrDelta: result.recoveredMRR,
+    arrDelta: result.recoveredARR,
+    arrRangeLow: result.rangeLow,
+    arrRangeHigh: result.rangeHigh,
+    confidence: result.confidence,
+    evidenceCount:
+      result.evidence.comparableCancellationEvents +
+      result.evidence.comparablePaymentEvents +
+      result.evidence.comparablePauseEvents,
+  };
+}
+
+const CONFIDENCE_RANK: Record<Confidence, number> = { Low: 0, Med: 1, High: 2 };
+
+export interface ScenarioDeltas {
+  expectedChurn90d: number;
+  mrrDelta: number;
+  arrDelta: number;
+  confidenceSteps: number; // e.g. +1 for Med vs Low
+  evidenceCount: number;
+}
+
+// Differences of a scenario's metrics against the reference scenario (the first one compared)
+export function scenarioDeltas(reference: ScenarioMetrics, scenario: ScenarioMetrics): ScenarioDeltas {
+  return {
+    expectedChurn90d: scenario.expectedChurn90d - reference.expectedChurn90d,
+    mrrDelta: scenario.mrrDelta - reference.mrrDelta,
+    arrDelta: scenario.arrDelta - reference.arrDelta,
+    confidenceSteps: CONFIDENCE_RANK[scenario.confidence] - CONFIDENCE_RANK[reference.confidence],
+    evidenceCount: scenario.evidenceCount - reference.evidenceCount,
+  };
+}
@@ -0,0 +1,81 @@
+import type { ComparableEvent } from './simulate';
+
+// Share of the global lift variance the between-merchant variance is floored at, so a noisy
+// method-of-moments estimate of 0 doesn't pool the merchant away entirely
+const MIN_BETWEEN_MERCHANT_SHARE = 0.1;
+
+export interface ShrinkageEstimate {
+  factor: number; // 0-1, share of the estimate borrowed from other merchants (0 = merchant only, 1 = global only)
+  merchantLift: number;
+  globalLift: number;
+  merchantVariance: number; // sampling variance of the merchant's mean lift
+  betweenMerchantVariance: number; // spread of true lifts across merchants (tau^2)
+}
+
+interface WeightedMoments {
+  mean: number;
+  variance: number; // weighted variance of individual lifts
+  effectiveCount: number; // Kish effective sample size
+}
+
+function observedLift(ce: ComparableEvent): number {
+  return ce.event.churn90dTreatment - ce.event.churn90dControl;
+}
+
+function weightedMoments(events: ComparableEvent[]): WeightedMoments | null {
+  const totalWeight = events.reduce((sum, ce) => sum + ce.similarity, 0);
+  if (totalWeight <= 0) return null;
+  const mean = events.reduce((sum, ce) => sum + observedLift(ce) * ce.similarity, 0) / totalWeight;
+  const variance = events.reduce((sum, ce) => sum + ce.similarity * (observedLift(ce) - mean) ** 2, 0) / totalWeight;
+  const sumSquaredWeights = events.reduce((sum, ce) => sum + ce.similarity * ce.similarity, 0);
+  return { mean, variance, effectiveCount: (totalWeight * totalWeight) / sumSquaredWeights };
+}
+
+/**
+ * Empirical-Bayes shrinkage of the merchant's similarity-weighted churn lift toward the global mean.
+ * The factor is merchantVariance / (merchantVariance + betweenMerchantVariance): a merchant with few or
+ * noisy events borrows more from other merchants, one with many consistent events keeps its own estimate.
+ * The between-merchant variance is floored so the merchant's own events always keep some weight.
+ * Returns null when either side has no usable evidence.
+ */
+export function estimateShrinkage(merchantEvents: ComparableEvent[], globalEvents: ComparableEvent[]): ShrinkageEstimate | null {
+  const merchant = weightedMoments(merchantEvents);
+  const global = weightedMoments(globalEvents);
+  if (!merchant || !global) return null;
+
+  // Group global events by merchant to estimate within- and between-merchant variance
+  const byMerchant = new Map<string, ComparableEvent[]>();
+  for (const ce of globalEvents) {
+    const group = byMerchant.get(ce.event.merchantId) ?? [];
+    group.push(ce);
+    byMerchant.set(ce.event.merchantId, group);
+  }
+  const groups = [...byMerchant.values()]
+    .map(weightedMoments)
+    .filter((m): m is WeightedMoments => m !== null);
+
+  // A single merchant event says nothing about its own spread; fall back to the global spread
+  const withinVariance = merchantEvents.length >= 2 ? merchant.variance : global.variance;
+  const merchantVariance = withinVariance / merchant.effectiveCount;
+
+  // Method of moments: observed spread of merchant means minus their average sampling noise
+  let betweenMerchantVariance = 0;
+  if (groups.length >= 2) {
+    const meanOfMeans = groups.reduce((sum, g) => sum + g.mean, 0) / groups.length;
+    const spread = groups.reduce((sum, g) => sum + (g.mean - meanOfMeans) ** 2, 0) / (groups.length - 1);
+    const noise = groups.reduce((sum, g) => sum + g.variance / g.effectiveCount, 0) / groups.length;
+    betweenMerchantVariance = Math.max(0, spread - noise);
+  }
+  betweenMerchantVariance = Math.max(betweenMerchantVariance, MIN_BETWEEN_MERCHANT_SHARE * global.variance);
+
+  const denominator = merchantVariance + betweenMerchantVariance;
+  const factor = denominator > 0 ? merchantVariance / denominator : 0;
+
+  return {
+    factor,
+    merchantLift: merchant.mean,
+    globalLift: global.mean,
+    merchantVariance,
+    betweenMerchantVariance,
+  };
+}
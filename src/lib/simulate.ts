@@ -1,6 +1,11 @@
-import { clamp } from './utils';
-import { dataset } from '../data/sampleData';
-import type { PriceChangeEvent } from '../data/types';
+import { SeededRNG, clamp, quantile } from './utils';
+import { fitElasticityCurve, predictLift, type ElasticityFit } from './elasticity';
+import { estimateShrinkage, type ShrinkageEstimate } from './shrinkage';
+import { projectCohort, renewalSharesByMonth, type CohortProjection, type CohortProjectionInput, type RenewalDistribution } from './projection';
+import { computeLtvImpact, type LtvImpact } from './ltv';
+import { applyRolloutToProjection, existingExposedShare, newSubscriberARRDelta, summarizeRollout, type RolloutOptions, type RolloutResult } from './rollout';
+import { getDatasetIndex, type DatasetIndex } from '../data/datasetIndex';
+import type { Dataset, Plan, PriceChangeEvent } from '../data/types';
 
 // Price shock constants
 const SAFE_INCREASE_PCT = 0.25;       // price increases up to +25% are "normal"; no shock
@@ -13,17 +18,122 @@ function smoothstep(x: number): number {
   return t * t * (3 - 2 * t);
 }
 
+// Weighted average churn lift from comparable events, with extreme-change adjustment and dynamic clamp
+function estimateEvidenceLift(weightedEvents: ComparableEvent[], pctChange: number): number {
+  const absPctChange = Math.abs(pctChange);
+  let churnLift = 0;
+
+  // Use weighted average of lifts
+  const totalWeight = weightedEvents.reduce((sum, we) => sum + we.weight, 0);
+  if (totalWeight > 0) {
+    const weightedLifts = weightedEvents.map(we => {
+      const lift = we.event.churn90dTreatment - we.event.churn90dControl;
+      return lift * we.weight;
+    });
+    churnLift = weightedLifts.reduce((sum, wl) => sum + wl, 0) / totalWeight;
+    
+    // Apply extreme change adjustment when price change is extreme
+    // This accounts for the fact that historical data may not have extreme examples
+    if (absPctChange > 0.50) {
+      // Calculate weighted average historical pct change magnitude from comparable events
+      const totalHistoricalPctChange = weightedEvents.reduce((sum, we) => {
+        return sum + Math.abs(we.event.pctChange) * we.weight;
+      }, 0);
+      const avgHistoricalPctChange = totalHistoricalPctChange / totalWeight;
+      
+      // If current change is significantly more extreme than historical average, apply adjustment
+      if (absPctChange > avgHistoricalPctChange * 1.5 && avgHistoricalPctChange > 0) {
+        // Scale up the churn lift proportionally to how much more extreme this change is
+        // Use a moderate scaling factor to avoid over-prediction
+        const extremeRatio = absPctChange / avgHistoricalPctChange;
+        const extremeAdjustment = (extremeRatio - 1.5) * 0.3; // Moderate scaling
+        churnLift = churnLift * (1 + Math.max(0, extremeAdjustment));
+      }
+    }
+  }
+  
+  return clampEvidenceLift(churnLift, pctChange);
+}
+
+// Dynamic clamp based on price change magnitude
+function clampEvidenceLift(churnLift: number, pctChange: number): number {
+  const absPctChange = Math.abs(pctChange);
+  const maxLift = pctChange > 0 
+    ? Math.min(0.50, 0.15 + (absPctChange - 0.25) * 0.70) // Up to 50pp for extreme increases
+    : Math.min(0.30, 0.15 + (absPctChange - 0.25) * 0.30); // Up to 30pp for extreme decreases
+  return clamp(churnLift, -maxLift, maxLift);
+}
+
+// Churn lift read off a piecewise linear curve fitted to the merchant's events, pooled toward the global fit
+function estimateCurveLift(events: ComparableEvent[], pctChange: number): { churnLift: number; fit: ElasticityFit } {
+  // Same similarity weights as the nearest-neighbour path; the curve pools merchant and global itself
+  const fit = fitElasticityCurve(
+    events.filter(e => !e.isGlobal).map(e => ({ event: e.event, weight: e.similarity })),
+    events.filter(e => e.isGlobal).map(e => ({ event: e.event, weight: e.similarity }))
+  );
+  const churnLift = clampEvidenceLift(predictLift(fit.increaseSlope, fit.decreaseSlope, pctChange), pctChange);
+  return { churnLift, fit };
+}
+
+export interface BootstrapOptions {
+  iterations: number; // 0 skips the bootstrap (range falls back to ±20%), e.g. for optimizer sweeps
+  seed: number;
+  percentiles: number[]; // 0-1, e.g., 0.10 = P10
+}
+
+export const DEFAULT_BOOTSTRAP_OPTIONS: BootstrapOptions = {
+  iterations: 500,
+  seed: 42,
+  percentiles: [0.10, 0.50, 0.90],
+};
+
+// nearestNeighbor: similarity-weighted average of comparable events (default)
+// curveFit: piecewise linear churn-vs-pctChange curve per merchant, pooled toward the global fit
+export type PriceEstimator = "nearestNeighbor" | "curveFit";
+
+export const PRICE_ESTIMATOR_LABELS: Record<PriceEstimator, string> = {
+  nearestNeighbor: "Nearest-neighbour weighting",
+  curveFit: "Fitted elasticity curve",
+};
+
 export interface SimulationInput {
   merchantId: string;
   planId: string;
   newPriceMonthly: number;
   useGlobalBenchmarks: boolean;
+  estimator?: PriceEstimator;
+  recencyHalfLifeDays?: number; // events this many days older than the newest event count half as much; omit for no decay
+  bootstrap?: Partial<BootstrapOptions>;
+  projectionMonths?: number; // length of the monthly cohort projection, default 12 (minimum 12)
+  annualDiscountRate?: number; // discount rate for LTV, e.g. 0.10 = 10%/year; default 0
+  rollout?: RolloutOptions; // default: all subscribers move to the new price immediately
+  renewalDistribution?: RenewalDistribution; // annual plans only, default "even"
+}
+
+export interface AnnualRenewalSummary {
+  distribution: RenewalDistribution;
+  renewalShareByMonth: number[]; // next 12 months
+  firstYearRealizedARRDelta: number; // revenue delta actually collected in the first 12 months
+  runRateARRDelta: number; // ARR delta once every subscriber has renewed at the new price
+}
+
+export interface BootstrapPercentile {
+  percentile: number;
+  churnLift: number;
+  netARRDelta: number;
+}
+
+export interface BootstrapResult {
+  iterations: number;
+  seed: number;
+  percentiles: BootstrapPercentile[];
 }
 
 export interface ComparableEvent {
   event: PriceChangeEvent;
   weight: number;
   similarity: number;
+  recencyWeight: number; // 0-1, already included in similarity
   isGlobal: boolean;
 }
 
@@ -40,6 +150,14 @@ export interface SimulationResult {
   netARRDelta: number;
   rangeLow: number;
   rangeHigh: number;
+  bootstrap?: BootstrapResult;
+  estimator: PriceEstimator;
+  curveFit?: ElasticityFit;
+  shrinkage?: ShrinkageEstimate; // merchant vs global pooling, when both sources have evidence
+  projection: CohortProjection;
+  ltv: LtvImpact;
+  rollout: RolloutResult;
+  annualRenewal?: AnnualRenewalSummary;
   topComparableEvents: ComparableEvent[];
   usedHeuristic: boolean;
   appliedPriceShock?: boolean;
@@ -47,23 +165,19 @@ export interface SimulationResult {
   priceShockNote?: string;
 }
 
-export function simulate(input: SimulationInput): SimulationResult {
-  const plan = dataset.plans.find(p => p.id === input.planId);
-  if (!plan) {
-    throw new Error(`Plan not found: ${input.planId}`);
-  }
-
-  const oldPrice = plan.currentPriceMonthly;
-  const pctChange = (input.newPriceMonthly - oldPrice) / oldPrice;
-
+/**
+ * Comparable price-change events for a plan: the merchant's events on plans with the same interval
+ * (narrowed to the plan itself when it has at least 3), plus other merchants' same-interval events
+ * when global benchmarks are on.
+ */
+export function selectPriceEvents(
+  index: DatasetIndex,
+  input: Pick<SimulationInput, "merchantId" | "planId" | "useGlobalBenchmarks">,
+  plan: Plan
+): { merchantEvents: PriceChangeEvent[]; globalEvents: PriceChangeEvent[] } {
   // Always start with merchant-specific events
-  let merchantEvents = dataset.events.filter(e => {
-    const eventPlan = dataset.plans.find(p => p.id === e.planId);
-    return (
-      e.merchantId === input.merchantId &&
-      eventPlan?.interval === plan.interval
-    );
-  });
+  let merchantEvents = (index.priceEventsByMerchant.get(input.merchantId) ?? [])
+    .filter(e => index.planById.get(e.planId)?.interval === plan.interval);
 
   // Prefer same planId if available
   const samePlanEvents = merchantEvents.filter(e => e.planId === input.planId);
@@ -75,15 +189,25 @@ export function simulate(input: SimulationInput): SimulationResult {
   let globalEvents: PriceChangeEvent[] = [];
   if (input.useGlobalBenchmarks) {
     // Global: same interval, exclude current merchant
-    globalEvents = dataset.events.filter(e => {
-      const eventPlan = dataset.plans.find(p => p.id === e.planId);
-      return (
-        e.merchantId !== input.merchantId &&
-        eventPlan?.interval === plan.interval
-      );
-    });
+    globalEvents = (index.priceEventsByInterval.get(plan.interval) ?? [])
+      .filter(e => e.merchantId !== input.merchantId);
+  }
+
+  return { merchantEvents, globalEvents };
+}
+
+export function simulate(dataset: Dataset, input: SimulationInput): SimulationResult {
+  const index = getDatasetIndex(dataset);
+  const plan = index.planById.get(input.planId);
+  if (!plan) {
+    throw new Error(`Plan not found: ${input.planId}`);
   }
 
+  const oldPrice = plan.currentPriceMonthly;
+  const pctChange = (input.newPriceMonthly - oldPrice) / oldPrice;
+
+  const { merchantEvents, globalEvents } = selectPriceEvents(index, input, plan);
+
   // Combine events and calculate evidence-based weights
   const merchantCount = merchantEvents.length;
   const globalCount = globalEvents.length;
@@ -102,6 +226,15 @@ export function simulate(input: SimulationInput): SimulationResult {
     ...globalEvents.map(e => ({ event: e, isGlobal: true })),
   ];
 
+  // Recency is measured against the newest event in the dataset so results don't drift with the wall clock
+  const latestEventTime = index.latestPriceEventTime;
+  const halfLifeDays = input.recencyHalfLifeDays;
+  const recencyWeightFor = (event: PriceChangeEvent): number => {
+    if (!halfLifeDays || halfLifeDays <= 0) return 1;
+    const ageDays = Math.max(0, (latestEventTime - event.effectiveDate.getTime()) / (1000 * 60 * 60 * 24));
+    return Math.pow(0.5, ageDays / halfLifeDays);
+  };
+
   // Weight events by similarity
   const weightedEvents: ComparableEvent[] = candidateEvents.map(({ event, isGlobal }) => {
     // Weight 1: closeness of pctChange
@@ -131,7 +264,10 @@ export function simulate(input: SimulationInput): SimulationResult {
       w2 = Math.max(0, 1 - priceDiff / priceBand);
     }
 
-    const similarity = w1 * w2;
+    // Weight 3: recency decay
+    const recencyWeight = recencyWeightFor(event);
+
+    const similarity = w1 * w2 * recencyWeight;
     
     // Apply evidence-based weight to similarity
     const evidenceWeight = isGlobal ? globalWeight : merchantWeight;
@@ -141,16 +277,39 @@ export function simulate(input: SimulationInput): SimulationResult {
       event,
       weight,
       similarity,
+      recencyWeight,
       isGlobal,
     };
   });
 
+  // With both merchant and global evidence, replace the count-based mix with empirical-Bayes shrinkage:
+  // re-weight each side so the weighted average is (1 - factor) * merchant lift + factor * global lift
+  // (the curve estimator pools its fitted slopes instead, see fitElasticityCurve)
+  const estimator = input.estimator ?? "nearestNeighbor";
+  let shrinkage: ShrinkageEstimate | undefined;
+  if (estimator === "nearestNeighbor" && merchantCount > 0 && globalCount > 0) {
+    shrinkage = estimateShrinkage(
+      weightedEvents.filter(we => !we.isGlobal),
+      weightedEvents.filter(we => we.isGlobal)
+    ) ?? undefined;
+  }
+  if (shrinkage) {
+    const merchantSimilarity = weightedEvents.reduce((sum, we) => sum + (we.isGlobal ? 0 : we.similarity), 0);
+    const globalSimilarity = weightedEvents.reduce((sum, we) => sum + (we.isGlobal ? we.similarity : 0), 0);
+    for (const we of weightedEvents) {
+      we.weight = we.isGlobal
+        ? we.similarity * shrinkage.factor / globalSimilarity
+        : we.similarity * (1 - shrinkage.factor) / merchantSimilarity;
+    }
+  }
+
   // Sort by weight descending
   weightedEvents.sort((a, b) => b.weight - a.weight);
 
   // Compute churn lift
   let churnLift = 0;
   let usedHeuristic = false;
+  let curveFit: ElasticityFit | undefined;
   const evidenceCount = weightedEvents.length;
 
   // Calculate extreme change multiplier for non-linear scaling
@@ -184,49 +343,18 @@ export function simulate(input: SimulationInput): SimulationResult {
       const maxLift = Math.min(0.20, 0.06 + (absPctChange - 0.10) * 0.10);
       churnLift = clamp(churnLift, -maxLift, 0);
     }
+  } else if (estimator === "curveFit") {
+    const estimate = estimateCurveLift(weightedEvents, pctChange);
+    churnLift = estimate.churnLift;
+    curveFit = estimate.fit;
   } else {
-    // Use weighted average of lifts
-    const totalWeight = weightedEvents.reduce((sum, we) => sum + we.weight, 0);
-    if (totalWeight > 0) {
-      const weightedLifts = weightedEvents.map(we => {
-        const lift = we.event.churn90dTreatment - we.event.churn90dControl;
-        return lift * we.weight;
-      });
-      churnLift = weightedLifts.reduce((sum, wl) => sum + wl, 0) / totalWeight;
-      
-      // Apply extreme change adjustment when price change is extreme
-      // This accounts for the fact that historical data may not have extreme examples
-      if (absPctChange > 0.50) {
-        // Calculate weighted average historical pct change magnitude from comparable events
-        const totalHistoricalPctChange = weightedEvents.reduce((sum, we) => {
-          return sum + Math.abs(we.event.pctChange) * we.weight;
-        }, 0);
-        const avgHistoricalPctChange = totalHistoricalPctChange / totalWeight;
-        
-        // If current change is significantly more extreme than historical average, apply adjustment
-        if (absPctChange > avgHistoricalPctChange * 1.5 && avgHistoricalPctChange > 0) {
-          // Scale up the churn lift proportionally to how much more extreme this change is
-          // Use a moderate scaling factor to avoid over-prediction
-          const extremeRatio = absPctChange / avgHistoricalPctChange;
-          const extremeAdjustment = (extremeRatio - 1.5) * 0.3; // Moderate scaling
-          churnLift = churnLift * (1 + Math.max(0, extremeAdjustment));
-        }
-      }
-    }
-    
-    // Dynamic clamp based on price change magnitude
-    const maxLift = pctChange > 0 
-      ? Math.min(0.50, 0.15 + (absPctChange - 0.25) * 0.70) // Up to 50pp for extreme increases
-      : Math.min(0.30, 0.15 + (absPctChange - 0.25) * 0.30); // Up to 30pp for extreme decreases
-    churnLift = clamp(churnLift, -maxLift, maxLift);
+    churnLift = estimateEvidenceLift(weightedEvents, pctChange);
   }
 
   // Compute data-driven expected churn (from historical events)
   const baselineChurn90d = plan.baselineChurn90d;
-  const dataDrivenExpectedChurn90d = clamp(baselineChurn90d + churnLift, 0, 0.5);
 
   // Apply price shock adjustment for extreme price increases
-  let expectedChurn90d = dataDrivenExpectedChurn90d;
   let appliedPriceShock = false;
   let priceShockWeight = 0;
   let priceShockNote: string | undefined;
@@ -237,51 +365,109 @@ export function simulate(input: SimulationInput): SimulationResult {
     const t = clamp(excess / (3 * SHOCK_RAMP_PCT), 0, 1);
     priceShockWeight = smoothstep(t);
 
-    // Blend toward MAX_CHURN_90D
-    const shockedExpectedChurn90d = dataDrivenExpectedChurn90d + priceShockWeight * (MAX_CHURN_90D - dataDrivenExpectedChurn90d);
-    expectedChurn90d = clamp(shockedExpectedChurn90d, 0, MAX_CHURN_90D);
-
     appliedPriceShock = true;
     priceShockNote = "Extreme price increase detected; applied non-linear price shock adjustment to prevent unrealistic retention assumptions.";
   }
 
+  // Final expected churn for a given lift: data-driven churn blended toward MAX_CHURN_90D by the shock weight
+  const expectedChurnForLift = (lift: number): number => {
+    const dataDrivenExpectedChurn90d = clamp(baselineChurn90d + lift, 0, 0.5);
+    if (!appliedPriceShock) return dataDrivenExpectedChurn90d;
+    const shockedExpectedChurn90d = dataDrivenExpectedChurn90d + priceShockWeight * (MAX_CHURN_90D - dataDrivenExpectedChurn90d);
+    return clamp(shockedExpectedChurn90d, 0, MAX_CHURN_90D);
+  };
+
   // Compute ARR impacts using final expected churn
   const baselineMRR = plan.activeSubs * oldPrice + plan.activeSubs * plan.arpuAddonsMonthly;
-  const incrementalChurnedSubs = plan.activeSubs * Math.max(expectedChurn90d - baselineChurn90d, 0);
-  const retainedSubs = plan.activeSubs - incrementalChurnedSubs;
-  const newMRR = retainedSubs * input.newPriceMonthly + retainedSubs * plan.arpuAddonsMonthly;
-  const netMRRDelta = newMRR - baselineMRR;
-  const netARRDelta = netMRRDelta * 12;
+  const newMRRForChurn = (churn: number): number => {
+    const incrementalChurnedSubs = plan.activeSubs * Math.max(churn - baselineChurn90d, 0);
+    const retainedSubs = plan.activeSubs - incrementalChurnedSubs;
+    return retainedSubs * input.newPriceMonthly + retainedSubs * plan.arpuAddonsMonthly;
+  };
+
+  const expectedChurn90d = expectedChurnForLift(churnLift);
+
+  // Split the ARR delta by cohort: existing subscribers on the new price (scaled by the rollout's
+  // exposure; grandfathered subscribers contribute nothing) plus new signups replacing subscribers
+  // who kept the old price, who only see the new price
+  const rolloutOptions: RolloutOptions = input.rollout ?? { mode: "all" };
+  const exposedShare = existingExposedShare(rolloutOptions);
+  const cohort: CohortProjectionInput = {
+    activeSubs: plan.activeSubs,
+    oldPriceMonthly: oldPrice,
+    newPriceMonthly: input.newPriceMonthly,
+    addonsMonthly: plan.arpuAddonsMonthly,
+    baselineChurn90d,
+    expectedChurn90d,
+    months: input.projectionMonths,
+  };
+
+  // Annual subscribers only see the new price (and can only churn) at renewal
+  const renewalDistribution = input.renewalDistribution ?? "even";
+  if (plan.interval === "annual") {
+    const asOf = latestEventTime > 0 ? new Date(latestEventTime) : new Date();
+    cohort.renewalShareByMonth = renewalSharesByMonth(renewalDistribution, plan.createdAt, asOf);
+  }
+
+  const newSubscriberARR = newSubscriberARRDelta(cohort, rolloutOptions).arrDelta;
+  const existingARRDeltaForChurn = (churn: number): number => exposedShare * (newMRRForChurn(churn) - baselineMRR) * 12;
+
+  const existingARRDelta = existingARRDeltaForChurn(expectedChurn90d);
+  const netARRDelta = existingARRDelta + newSubscriberARR;
+  const netMRRDelta = netARRDelta / 12;
+  const newMRR = baselineMRR + netMRRDelta;
+
+  const projection = applyRolloutToProjection(projectCohort(cohort), rolloutOptions, cohort);
+  const ltv = computeLtvImpact(cohort, rolloutOptions, input.annualDiscountRate);
+  const rollout = summarizeRollout(rolloutOptions, cohort, existingARRDelta);
+  const annualRenewal: AnnualRenewalSummary | undefined = cohort.renewalShareByMonth && {
+    distribution: renewalDistribution,
+    renewalShareByMonth: cohort.renewalShareByMonth,
+    firstYearRealizedARRDelta: projection.months[11].cumulativeRevenueDelta,
+    runRateARRDelta: netARRDelta,
+  };
 
-  // Compute range (simplified: use ±1 std error if available, else ±20%)
   let rangeLow = netARRDelta;
   let rangeHigh = netARRDelta;
+  let bootstrap: BootstrapResult | undefined;
   
-  if (!usedHeuristic && evidenceCount >= 5) {
-    // Estimate range based on lift uncertainty
-    // Apply same price shock adjustment to range calculations
-    const liftRange = 0.02; // Rough estimate
-    let lowChurn = clamp(baselineChurn90d + churnLift - liftRange, 0, 0.5);
-    let highChurn = clamp(baselineChurn90d + churnLift + liftRange, 0, 0.5);
-    
-    // Apply price shock to range if applicable
-    if (appliedPriceShock) {
-      const lowShocked = lowChurn + priceShockWeight * (MAX_CHURN_90D - lowChurn);
-      const highShocked = highChurn + priceShockWeight * (MAX_CHURN_90D - highChurn);
-      lowChurn = clamp(lowShocked, 0, MAX_CHURN_90D);
-      highChurn = clamp(highShocked, 0, MAX_CHURN_90D);
+  const bootstrapOptions = { ...DEFAULT_BOOTSTRAP_OPTIONS, ...input.bootstrap };
+  if (!usedHeuristic && evidenceCount >= 5 && bootstrapOptions.iterations > 0) {
+    // Bootstrap: resample comparable events with replacement and recompute lift and ARR delta
+    const options = bootstrapOptions;
+    const rng = new SeededRNG(options.seed);
+    const lifts: number[] = [];
+    const arrDeltas: number[] = [];
+
+    for (let i = 0; i < options.iterations; i++) {
+      const sample: ComparableEvent[] = [];
+      for (let j = 0; j < weightedEvents.length; j++) {
+        sample.push(rng.choice(weightedEvents));
+      }
+      const sampleLift = estimator === "curveFit"
+        ? estimateCurveLift(sample, pctChange).churnLift
+        : estimateEvidenceLift(sample, pctChange);
+      lifts.push(sampleLift);
+      arrDeltas.push(existingARRDeltaForChurn(expectedChurnForLift(sampleLift)) + newSubscriberARR);
+    }
+
+    lifts.sort((a, b) => a - b);
+    arrDeltas.sort((a, b) => a - b);
+    const percentiles = [...options.percentiles]
+      .sort((a, b) => a - b)
+      .map(p => ({
+        percentile: p,
+        churnLift: quantile(lifts, p),
+        netARRDelta: quantile(arrDeltas, p),
+      }));
+
+    bootstrap = { iterations: options.iterations, seed: options.seed, percentiles };
+    if (percentiles.length > 0) {
+      rangeLow = percentiles[0].netARRDelta;
+      rangeHigh = percentiles[percentiles.length - 1].netARRDelta;
     }
-    
-    const lowRetained = plan.activeSubs - plan.activeSubs * Math.max(lowChurn - baselineChurn90d, 0);
-    const highRetained = plan.activeSubs - plan.activeSubs * Math.max(highChurn - baselineChurn90d, 0);
-    
-    const lowMRR = lowRetained * input.newPriceMonthly + lowRetained * plan.arpuAddonsMonthly;
-    const highMRR = highRetained * input.newPriceMonthly + highRetained * plan.arpuAddonsMonthly;
-    
-    rangeLow = (lowMRR - baselineMRR) * 12;
-    rangeHigh = (highMRR - baselineMRR) * 12;
   } else {
-    // Heuristic: ±20% range
+    // Heuristic (or bootstrap disabled): ±20% range
     const range = Math.abs(netARRDelta) * 0.20;
     rangeLow = netARRDelta - range;
     rangeHigh = netARRDelta + range;
@@ -311,6 +497,14 @@ export function simulate(input: SimulationInput): SimulationResult {
     netARRDelta,
     rangeLow,
     rangeHigh,
+    bootstrap,
+    estimator,
+    curveFit,
+    shrinkage,
+    projection,
+    ltv,
+    rollout,
+    annualRenewal,
     topComparableEvents,
     usedHeuristic,
     appliedPriceShock: appliedPriceShock || undefined,
@@ -325,6 +519,18 @@ export interface PriceOptimizationDataPoint {
   expectedChurn90d: number;
 }
 
+// Arguments of findOptimalPrice as one object, for callers that pass them around (worker, CLI, API)
+export interface PriceOptimizationInput {
+  merchantId: string;
+  planId: string;
+  useGlobalBenchmarks: boolean;
+  priceRange?: [number, number];
+  steps?: number;
+  estimator?: PriceEstimator;
+  recencyHalfLifeDays?: number;
+  rollout?: RolloutOptions;
+}
+
 export interface PriceOptimizationResult {
   dataPoints: PriceOptimizationDataPoint[];
   optimalPrice: number;
@@ -339,20 +545,30 @@ export interface PriceOptimizationResult {
 
 /**
  * Find optimal price by running simulations across a range of prices
+ * @param dataset - The dataset to simulate against
  * @param merchantId - The merchant ID
  * @param planId - The plan ID
  * @param useGlobalBenchmarks - Whether to use global benchmarks
  * @param priceRange - Range of prices to test (as multipliers of current price), default [-0.5, 1.0] (50% decrease to 100% increase)
  * @param steps - Number of price points to test, default 50
+ * @param estimator - Churn lift estimator used for each simulation, default nearest-neighbour weighting
+ * @param recencyHalfLifeDays - Half-life for down-weighting older events, default no decay
+ * @param rollout - How the new price reaches existing subscribers, default all immediately
+ * @param onProgress - Called after each price point with the number of points done and the total
  */
 export function findOptimalPrice(
+  dataset: Dataset,
   merchantId: string,
   planId: string,
   useGlobalBenchmarks: boolean,
   priceRange: [number, number] = [-0.5, 1.0],
-  steps: number = 50
+  steps: number = 50,
+  estimator: PriceEstimator = "nearestNeighbor",
+  recencyHalfLifeDays?: number,
+  rollout?: RolloutOptions,
+  onProgress?: (completed: number, total: number) => void
 ): PriceOptimizationResult {
-  const plan = dataset.plans.find(p => p.id === planId);
+  const plan = getDatasetIndex(dataset).planById.get(planId);
   if (!plan) {
     throw new Error(`Plan not found: ${planId}`);
   }
@@ -384,11 +600,15 @@ export function findOptimalPrice(
     if (testPrice <= 0 || testPrice < minAllowedPrice) continue;
 
     try {
-      const result = simulate({
+      const result = simulate(dataset, {
         merchantId,
         planId,
         newPriceMonthly: testPrice,
         useGlobalBenchmarks,
+        estimator,
+        recencyHalfLifeDays,
+        rollout,
+        bootstrap: { iterations: 0 }, // only the point estimate is used
       });
 
       const arrImpact = result.netARRDelta;
@@ -428,20 +648,25 @@ export function findOptimalPrice(
       // Skip prices that cause simulation errors
       console.warn(`Simulation failed for price ${testPrice}:`, error);
     }
+    onProgress?.(i + 1, steps + 1);
   }
 
   // If we didn't find current price impact, run a simulation for it
   if (currentARRImpact === 0 && dataPoints.length > 0) {
     try {
-      const currentResult = simulate({
+      const currentResult = simulate(dataset, {
         merchantId,
         planId,
         newPriceMonthly: currentPrice,
         useGlobalBenchmarks,
+        estimator,
+        recencyHalfLifeDays,
+        rollout,
+        bootstrap: { iterations: 0 },
       });
       currentARRImpact = currentResult.netARRDelta;
       currentChurn90d = currentResult.expectedChurn90d;
-    } catch (error) {
+    } catch {
       // Use closest data point
       const closest = dataPoints.reduce((prev, curr) => 
         Math.abs(curr.price - currentPrice) < Math.abs(prev.price - currentPrice) ? curr : prev
@@ -484,3 +709,23 @@ export function findOptimalPrice(
   };
 }
 
+
+// findOptimalPrice with its arguments taken from a PriceOptimizationInput
+export function findOptimalPriceFor(
+  dataset: Dataset,
+  input: PriceOptimizationInput,
+  onProgress?: (completed: number, total: number) => void
+): PriceOptimizationResult {
+  return findOptimalPrice(
+    dataset,
+    input.merchantId,
+    input.planId,
+    input.useGlobalBenchmarks,
+    input.priceRange,
+    input.steps,
+    input.estimator,
+    input.recencyHalfLifeDays,
+    input.rollout,
+    onProgress
+  );
+}
@@ -1,6 +1,31 @@
-import { clamp } from './utils';
-import { dataset } from '../data/sampleData';
-import type { InterventionType, IncentiveStrength } from '../data/types';
+import { SeededRNG, clamp, quantile } from './utils';
+import { kaplanMeier, postSaveLifetimes, restrictedMeanSurvival, type SurvivalCurve } from './survival';
+import { getDatasetIndex, interventionKey, dunningConfigKey, type DatasetIndex } from '../data/datasetIndex';
+import type { Dataset, InterventionType, IncentiveStrength, CancellationEvent, PaymentFailureEvent, PauseEvent } from '../data/types';
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed: number;
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  iterations: 2000,
+  seed: 42,
+};
+
+// Discount given to a subscriber the incentive saves: discountPct off the plan price for `months` months
+export interface IncentiveTerms {
+  discountPct: number; // e.g. 0.20 = 20% off
+  months: number;
+}
+
+export type IncentiveTermsByStrength = Record<Exclude<IncentiveStrength, "none">, IncentiveTerms>;
+
+export const DEFAULT_INCENTIVE_TERMS: IncentiveTermsByStrength = {
+  light: { discountPct: 0.10, months: 1 },
+  medium: { discountPct: 0.20, months: 2 },
+  heavy: { discountPct: 0.30, months: 3 },
+};
 
 export interface ChurnSimulationInput {
   merchantId: string;
@@ -18,11 +43,69 @@ export interface ChurnSimulationInput {
     pauseEnabled: boolean;
     maxPauseCycles: number;
   };
+  incentiveTerms?: Partial<IncentiveTermsByStrength>; // overrides DEFAULT_INCENTIVE_TERMS per strength
+  // When set, lever rates are drawn from Beta posteriors instead of using point estimates
+  monteCarlo?: Partial<MonteCarloOptions>;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+}
+
+export interface ChurnMonteCarloResult {
+  iterations: number;
+  seed: number;
+  recoveredARR: DistributionSummary;
+  savedSubs: DistributionSummary;
+  recoveredARRHistogram: HistogramBin[];
+  samples: {
+    recoveredARR: number[];
+    savedSubs: number[];
+  };
+}
+
+export type LeverStage = "cancelFlow" | "pause" | "incentive" | "dunning";
+
+export const LEVER_STAGE_LABELS: Record<LeverStage, string> = {
+  cancelFlow: "Cancel flow",
+  pause: "Pause policy",
+  incentive: "Incentive",
+  dunning: "Dunning",
+};
+
+// A lever's marginal effect, given the levers applied before it
+export interface LeverContribution {
+  stage: LeverStage;
+  atRiskSubs: number; // subscribers still at risk when this lever acts
+  saveRate: number; // share of those it saves beyond baseline
+  savedSubs: number;
+  retainedMonths: number; // months each save is expected to keep paying within the first year
+  recoveredARR: number; // before incentive cost
+  incentiveCost: number; // discounts given to the subscribers this lever saved
+}
+
+// How long subscribers saved by one intervention type stayed, from their post-save lifetimes
+export interface SavedLifetime {
+  interventionType: InterventionType;
+  curve: SurvivalCurve;
+  retainedMonths: number; // expected paying months within the first year after the save
+  pooled: boolean; // too few saves of this type, so every saved subscriber on the plan was used
 }
 
 export interface ChurnSimulationResult {
-  recoveredARR: number;
-  recoveredMRR: number;
+  grossRecoveredARR: number; // saved subscribers at full price for their expected first-year lifetime
+  incentiveCost: number; // discounts given to subscribers saved by the incentive
+  recoveredARR: number; // net of incentive cost
+  recoveredMRR: number; // recoveredARR / 12
   savedSubs: number;
   churnReductionPp: number;
   confidence: "High" | "Med" | "Low";
@@ -40,45 +123,257 @@ export interface ChurnSimulationResult {
   };
   rangeLow: number;
   rangeHigh: number;
-  fatigueFactor: number;
+  aggressive: boolean; // see isAggressiveLeverConfig and AGGRESSIVE_SAVED_SHARE
+  incentiveUnprofitable: boolean; // the incentive's discounts cost more than the ARR it recovers
+  leverContributions: LeverContribution[]; // in the order the levers act
+  savedLifetimes: SavedLifetime[]; // one per intervention type behind a voluntary lever
+  monteCarlo?: ChurnMonteCarloResult;
 }
 
-export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResult {
-  const plan = dataset.plans.find(p => p.id === input.planId);
-  if (!plan) {
-    throw new Error(`Plan not found: ${input.planId}`);
+// Per-lever rates that drive saved subscriber estimates
+interface LeverRates {
+  configuredSaveRate: number;
+  baselineNoneSaveRate: number;
+  configuredRecoveryRate: number;
+  baselineRecoveryRate: number;
+  effectiveResumeRateConfigured: number;
+}
+
+interface LeverExposure {
+  expectedCancels: number;
+  expectedDunningLosses: number;
+  pauseAdoptionRate: number;
+  pauseEnabled: boolean;
+  leverAStage: "cancelFlow" | "incentive" | null; // where lever A's intervention sits in the sequence
+}
+
+type LeverStageResult = Omit<LeverContribution, "retainedMonths" | "recoveredARR" | "incentiveCost">;
+
+/**
+ * Saved subs per lever for a set of lever rates. Voluntary cancels form one at-risk pool that
+ * passes through the cancel flow, then the pause offer, then the incentive, so each lever only
+ * acts on subscribers the earlier ones didn't save. Dunning works on failed payments, a separate pool.
+ */
+function leverStagesForRates(rates: LeverRates, exposure: LeverExposure): LeverStageResult[] {
+  const stages: LeverStageResult[] = [];
+  let atRiskSubs = exposure.expectedCancels;
+  const applyVoluntaryStage = (stage: LeverStage, saveRate: number) => {
+    const savedSubs = atRiskSubs * saveRate;
+    stages.push({ stage, atRiskSubs, saveRate, savedSubs });
+    atRiskSubs -= savedSubs;
+  };
+
+  // Lever A: Cancellation intervention lift
+  const saveLiftA = clamp(rates.configuredSaveRate - rates.baselineNoneSaveRate, -0.05, 0.35);
+  if (exposure.leverAStage === "cancelFlow") {
+    applyVoluntaryStage("cancelFlow", saveLiftA);
+  }
+
+  // Lever C: Pause lift. Baseline has no pause, so its effective resume rate is 0
+  if (exposure.pauseEnabled) {
+    applyVoluntaryStage("pause", exposure.pauseAdoptionRate * clamp(rates.effectiveResumeRateConfigured, -0.10, 0.50));
+  }
+
+  if (exposure.leverAStage === "incentive") {
+    applyVoluntaryStage("incentive", saveLiftA);
+  }
+
+  // Lever B: Dunning lift
+  const recoveryLiftB = clamp(rates.configuredRecoveryRate - rates.baselineRecoveryRate, -0.10, 0.60);
+  stages.push({
+    stage: "dunning",
+    atRiskSubs: exposure.expectedDunningLosses,
+    saveRate: recoveryLiftB,
+    savedSubs: exposure.expectedDunningLosses * recoveryLiftB,
+  });
+
+  return stages;
+}
+
+const totalSavedSubs = (stages: LeverStageResult[]) => stages.reduce((sum, s) => sum + s.savedSubs, 0);
+
+// Revenue months the saves bring in within the first year, given each stage's expected lifetime
+const savedSubMonths = (stages: LeverStageResult[], retainedMonths: Record<LeverStage, number>) =>
+  stages.reduce((sum, s) => sum + s.savedSubs * retainedMonths[s.stage], 0);
+
+// A lever that loses subscribers (negative saves) gives out no discounts
+const incentiveSaves = (stages: LeverStageResult[]) =>
+  Math.max(stages.find(s => s.stage === "incentive")?.savedSubs ?? 0, 0);
+
+// Recovered ARR covers the year after a save, so lifetimes are only credited up to that horizon
+const LIFETIME_HORIZON_DAYS = 365;
+const DAYS_PER_MONTH = LIFETIME_HORIZON_DAYS / 12;
+
+// Below this many saves an intervention type's lifetimes are pooled with every save on the plan
+const MIN_LIFETIME_OBSERVATIONS = 10;
+
+const savedLifetimeCache = new WeakMap<DatasetIndex, Map<string, SavedLifetime>>();
+
+/**
+ * Survival curve of subscribers an intervention type saved on a plan, and the paying months it implies.
+ * With no lifetimes recorded at all a save is assumed to last the full year.
+ */
+function savedLifetimeFor(index: DatasetIndex, planId: string, interventionType: InterventionType): SavedLifetime {
+  let planCache = savedLifetimeCache.get(index);
+  if (!planCache) {
+    planCache = new Map();
+    savedLifetimeCache.set(index, planCache);
+  }
+  const key = `${planId}|${interventionType}`;
+  const cached = planCache.get(key);
+  if (cached) return cached;
+
+  const planEvents = index.cancellationEventsByPlan.get(planId) ?? [];
+  const observationEnd = index.latestCancellationEventTime;
+  let observations = postSaveLifetimes(planEvents.filter(e => e.interventionType === interventionType), observationEnd);
+  const pooled = observations.length < MIN_LIFETIME_OBSERVATIONS;
+  if (pooled) {
+    observations = postSaveLifetimes(planEvents, observationEnd);
+  }
+  const curve = kaplanMeier(observations);
+  const lifetime: SavedLifetime = {
+    interventionType,
+    curve,
+    retainedMonths: curve.observations > 0
+      ? restrictedMeanSurvival(curve, LIFETIME_HORIZON_DAYS) / DAYS_PER_MONTH
+      : 12,
+    pooled,
+  };
+  planCache.set(key, lifetime);
+  return lifetime;
+}
+
+/**
+ * Discount terms in effect for the configured incentive, or null when lever A isn't a paid incentive.
+ */
+export function incentiveTermsFor(input: Pick<ChurnSimulationInput, "leverA" | "incentiveTerms">): IncentiveTerms | null {
+  const strength = input.leverA.incentiveStrength;
+  if (input.leverA.type !== "incentive" || !strength || strength === "none") return null;
+  return input.incentiveTerms?.[strength] ?? DEFAULT_INCENTIVE_TERMS[strength];
+}
+
+// Posterior draw of a rate from successes/trials with a uniform Beta(1, 1) prior
+function drawRate(rng: SeededRNG, successes: number, trials: number, fallback: number): number {
+  if (trials === 0) return fallback;
+  return rng.beta(1 + successes, 1 + trials - successes);
+}
+
+function summarize(sorted: number[]): DistributionSummary {
+  const mean = sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0;
+  return {
+    mean,
+    p10: quantile(sorted, 0.10),
+    p50: quantile(sorted, 0.50),
+    p90: quantile(sorted, 0.90),
+  };
+}
+
+function buildHistogram(sorted: number[], binCount: number): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / binCount || 1;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    binStart: min + i * width,
+    binEnd: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    const index = Math.min(Math.floor((value - min) / width), binCount - 1);
+    bins[index].count++;
   }
+  return bins;
+}
 
-  // Always start with merchant-specific events (same plan)
-  let merchantCancellationEvents = dataset.cancellationEvents.filter(e => 
-    e.merchantId === input.merchantId && e.planId === input.planId
-  );
+export interface ChurnEvidenceEvents {
+  matchingCancellationEvents: CancellationEvent[];
+  matchingMerchantCancellationEvents: CancellationEvent[];
+  baselineNoneEvents: CancellationEvent[];
+  matchingPaymentEvents: PaymentFailureEvent[];
+  matchingMerchantPaymentEvents: PaymentFailureEvent[];
+  baselinePaymentEvents: PaymentFailureEvent[];
+  leverCPauseEvents: PauseEvent[];
+  matchingMerchantPauseEvents: PauseEvent[];
+}
+
+export type LeverConfig = Pick<ChurnSimulationInput, "leverA" | "leverB" | "leverC">;
 
-  let merchantPaymentEvents = dataset.paymentFailureEvents.filter(e => 
-    e.merchantId === input.merchantId && e.planId === input.planId
-  );
+// Saving more than this share of expected churn also counts as aggressive
+const AGGRESSIVE_SAVED_SHARE = 0.30;
 
-  let merchantPauseEvents = dataset.pauseEvents.filter(e => 
-    e.merchantId === input.merchantId && e.planId === input.planId
-  );
+const AGGRESSIVE_WARNING = "This configuration is unusually aggressive; estimated recovery may be overstated and could introduce customer experience risk.";
 
-  // Always include global events (same plan, different merchant)
-  const globalCancellationEvents = dataset.cancellationEvents.filter(e => 
-    e.merchantId !== input.merchantId && e.planId === input.planId
-  );
+/**
+ * Lever settings aggressive enough to risk customer experience and overstate recovery.
+ */
+export function isAggressiveLeverConfig(config: LeverConfig): boolean {
+  return (config.leverA.type === "incentive" && config.leverA.incentiveStrength === "heavy") ||
+    config.leverB.retries >= 7 ||
+    config.leverB.retryWindowDays >= 25 ||
+    config.leverC.maxPauseCycles >= 5;
+}
 
-  const globalPaymentEvents = dataset.paymentFailureEvents.filter(e => 
-    e.merchantId !== input.merchantId && e.planId === input.planId
-  );
+// Baseline dunning configuration that lever B is compared against
+export const BASELINE_DUNNING_CONFIG = { retries: 3, retryWindowDays: 7, fallbackEnabled: false };
 
-  const globalPauseEvents = dataset.pauseEvents.filter(e => 
-    e.merchantId !== input.merchantId && e.planId === input.planId
-  );
+export function isBaselineDunningConfig(config: LeverConfig["leverB"]): boolean {
+  return config.retries === BASELINE_DUNNING_CONFIG.retries &&
+    config.retryWindowDays === BASELINE_DUNNING_CONFIG.retryWindowDays &&
+    config.fallbackEnabled === BASELINE_DUNNING_CONFIG.fallbackEnabled;
+}
 
-  // Combine merchant and global events (always use global data)
-  const cancellationEvents = [...merchantCancellationEvents, ...globalCancellationEvents];
-  const paymentEvents = [...merchantPaymentEvents, ...globalPaymentEvents];
-  const pauseEvents = [...merchantPauseEvents, ...globalPauseEvents];
+/**
+ * Events behind each lever's rates: the plan's events (merchant and global) matching the configured
+ * lever settings, the merchant's share of them, and the baseline comparison groups.
+ */
+export function selectChurnEvents(index: DatasetIndex, input: ChurnSimulationInput): ChurnEvidenceEvents {
+  const isMerchantEvent = (e: { merchantId: string }) => e.merchantId === input.merchantId;
+
+  // Merchant and global events on the same plan are always combined
+  const pauseEvents = index.pauseEventsByPlan.get(input.planId) ?? [];
+
+  // Lever A: Cancellation intervention lift
+  const matchingCancellationEvents = index.cancellationEventsByIntervention.get(
+    interventionKey(input.planId, input.leverA.type, input.leverA.incentiveStrength)
+  ) ?? [];
+
+  // Lever B: Dunning lift
+  const matchingPaymentEvents = index.paymentEventsByDunningConfig.get(dunningConfigKey(input.planId, input.leverB)) ?? [];
+
+  // Lever C: Pause events within the configured cycle limit
+  const leverCPauseEvents = input.leverC.pauseEnabled
+    ? pauseEvents.filter(e => e.pauseEnabled && e.pauseCycles <= input.leverC.maxPauseCycles)
+    : [];
+
+  return {
+    matchingCancellationEvents,
+    matchingMerchantCancellationEvents: matchingCancellationEvents.filter(isMerchantEvent),
+    baselineNoneEvents: index.cancellationEventsByIntervention.get(interventionKey(input.planId, "none")) ?? [],
+    matchingPaymentEvents,
+    matchingMerchantPaymentEvents: matchingPaymentEvents.filter(isMerchantEvent),
+    baselinePaymentEvents: index.paymentEventsByDunningConfig.get(dunningConfigKey(input.planId, BASELINE_DUNNING_CONFIG)) ?? [],
+    leverCPauseEvents,
+    matchingMerchantPauseEvents: leverCPauseEvents.filter(isMerchantEvent),
+  };
+}
+
+export function simulateChurn(dataset: Dataset, input: ChurnSimulationInput): ChurnSimulationResult {
+  const index = getDatasetIndex(dataset);
+  const plan = index.planById.get(input.planId);
+  if (!plan) {
+    throw new Error(`Plan not found: ${input.planId}`);
+  }
+
+  const {
+    matchingCancellationEvents,
+    matchingMerchantCancellationEvents,
+    baselineNoneEvents,
+    matchingPaymentEvents,
+    matchingMerchantPaymentEvents,
+    baselinePaymentEvents,
+    leverCPauseEvents,
+    matchingMerchantPauseEvents,
+  } = selectChurnEvents(index, input);
 
   // Calculate baseline expectations
   const activeSubs = plan.activeSubs;
@@ -86,26 +381,6 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
   const expectedPaymentFailures = activeSubs * plan.paymentFailureRate90d;
   const expectedDunningLosses = expectedPaymentFailures * (1 - plan.baselineDunningRecoveryRate);
 
-  // Lever A: Cancellation intervention lift
-  // Filter matching events from combined merchant + global pool
-  const matchingCancellationEvents = cancellationEvents.filter(e => {
-    if (input.leverA.type === "incentive") {
-      return e.interventionType === input.leverA.type && 
-             e.incentiveStrength === input.leverA.incentiveStrength;
-    }
-    return e.interventionType === input.leverA.type;
-  });
-  
-  // Also get merchant-specific matching events for evidence
-  const matchingMerchantCancellationEvents = merchantCancellationEvents.filter(e => {
-    if (input.leverA.type === "incentive") {
-      return e.interventionType === input.leverA.type && 
-             e.incentiveStrength === input.leverA.incentiveStrength;
-    }
-    return e.interventionType === input.leverA.type;
-  });
-
-  const baselineNoneEvents = cancellationEvents.filter(e => e.interventionType === "none");
   const baselineNoneSaved = baselineNoneEvents.filter(e => e.outcome === "saved").length;
   const baselineNoneSaveRate = baselineNoneEvents.length > 0 
     ? baselineNoneSaved / baselineNoneEvents.length 
@@ -116,26 +391,6 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
     ? configuredSaved / matchingCancellationEvents.length
     : baselineNoneSaveRate;
 
-  const saveLiftA = configuredSaveRate - baselineNoneSaveRate;
-  const savedSubsA = expectedCancels * clamp(saveLiftA, -0.05, 0.35);
-
-  // Lever B: Dunning lift
-  const matchingPaymentEvents = paymentEvents.filter(e => {
-    return e.retries === input.leverB.retries &&
-           e.retryWindowDays === input.leverB.retryWindowDays &&
-           e.fallbackEnabled === input.leverB.fallbackEnabled;
-  });
-  
-  // Also get merchant-specific matching events for evidence
-  const matchingMerchantPaymentEvents = merchantPaymentEvents.filter(e => {
-    return e.retries === input.leverB.retries &&
-           e.retryWindowDays === input.leverB.retryWindowDays &&
-           e.fallbackEnabled === input.leverB.fallbackEnabled;
-  });
-
-  const baselinePaymentEvents = paymentEvents.filter(e => 
-    e.retries === 3 && e.retryWindowDays === 7 && !e.fallbackEnabled
-  );
   const baselineRecovered = baselinePaymentEvents.filter(e => e.recovered).length;
   const baselineRecoveryRate = baselinePaymentEvents.length > 0
     ? baselineRecovered / baselinePaymentEvents.length
@@ -146,76 +401,65 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
     ? configuredRecovered / matchingPaymentEvents.length
     : baselineRecoveryRate;
 
-  const recoveryLiftB = configuredRecoveryRate - baselineRecoveryRate;
-  const savedSubsB = expectedDunningLosses * clamp(recoveryLiftB, -0.10, 0.60);
-
-  // Lever C: Pause lift
-  let savedSubsC = 0;
-  if (input.leverC.pauseEnabled) {
-    const matchingPauseEvents = pauseEvents.filter(e => 
-      e.pauseEnabled && e.pauseCycles <= input.leverC.maxPauseCycles
-    );
-    
-    // Effective resume rate: resumed AND not churned within 90d
-    const configuredResumedNotChurned = matchingPauseEvents.filter(e => 
-      e.resumed && e.churnedWithin90d === false
-    ).length;
-    const effectiveResumeRateConfigured = matchingPauseEvents.length > 0
-      ? configuredResumedNotChurned / matchingPauseEvents.length
-      : 0;
-
-    // For baseline, we compare against events where pause was not available
-    // Since baseline has no pause, effective resume rate is 0 (they can't resume if they can't pause)
-    const effectiveResumeRateBaseline = 0;
-
-    const pauseLiftC = effectiveResumeRateConfigured - effectiveResumeRateBaseline;
-    savedSubsC = expectedCancels * plan.baselinePauseAdoptionRate * clamp(pauseLiftC, -0.10, 0.50);
-  }
+  // Lever C: Pause effective resume rate (resumed AND not churned within 90d)
+  const configuredResumedNotChurned = leverCPauseEvents.filter(e => 
+    e.resumed && e.churnedWithin90d === false
+  ).length;
+  const effectiveResumeRateConfigured = leverCPauseEvents.length > 0
+    ? configuredResumedNotChurned / leverCPauseEvents.length
+    : 0;
 
-  // Combine with diminishing returns (fatigue factor)
-  const totalSavedRaw = savedSubsA + savedSubsB + savedSubsC;
+  const exposure: LeverExposure = {
+    expectedCancels,
+    expectedDunningLosses,
+    pauseAdoptionRate: plan.baselinePauseAdoptionRate,
+    pauseEnabled: input.leverC.pauseEnabled,
+    leverAStage: input.leverA.type === "none" ? null : input.leverA.type === "incentive" ? "incentive" : "cancelFlow",
+  };
 
-  let fatigueFactor = 0;
-  if (input.leverA.type === "incentive" && input.leverA.incentiveStrength === "heavy") {
-    fatigueFactor += 0.20;
-  }
-  if (input.leverB.retries >= 7) {
-    fatigueFactor += 0.10;
-  }
-  if (input.leverB.retryWindowDays >= 21) {
-    fatigueFactor += 0.10;
+  const stages = leverStagesForRates({
+    configuredSaveRate,
+    baselineNoneSaveRate,
+    configuredRecoveryRate,
+    baselineRecoveryRate,
+    effectiveResumeRateConfigured,
+  }, exposure);
+  const effectiveSavedSubs = totalSavedSubs(stages);
+
+  // Voluntary saves are valued by how long that intervention's saves lasted. The pause lever uses
+  // the cancel flow's pause offer; recovered payments have no lifetime data and count the full year
+  const savedLifetimes: SavedLifetime[] = [];
+  const retainedMonths: Record<LeverStage, number> = { cancelFlow: 12, pause: 12, incentive: 12, dunning: 12 };
+  for (const { stage } of stages) {
+    if (stage === "dunning") continue;
+    const lifetime = savedLifetimeFor(index, input.planId, stage === "pause" ? "pause" : input.leverA.type);
+    retainedMonths[stage] = lifetime.retainedMonths;
+    if (!savedLifetimes.includes(lifetime)) savedLifetimes.push(lifetime);
   }
-  if (input.leverB.fallbackEnabled) {
-    fatigueFactor += 0.05;
-  }
-  if (input.leverC.maxPauseCycles >= 4) {
-    fatigueFactor += 0.10;
-  }
-  fatigueFactor = clamp(fatigueFactor, 0, 0.50);
-
-  const effectiveSavedSubs = totalSavedRaw * (1 - fatigueFactor);
 
-  // Calculate recovered ARR
+  // Calculate recovered ARR; incentive discounts apply to the plan price, not add-ons
   const planMonthlyEquivalent = plan.currentPriceMonthly + plan.arpuAddonsMonthly;
-  const recoveredMRR = effectiveSavedSubs * planMonthlyEquivalent;
-  const recoveredARR = recoveredMRR * 12;
+  const terms = incentiveTermsFor(input);
+  const costPerIncentiveSave = terms ? plan.currentPriceMonthly * terms.discountPct * terms.months : 0;
+  const grossRecoveredARR = savedSubMonths(stages, retainedMonths) * planMonthlyEquivalent;
+  const incentiveCost = incentiveSaves(stages) * costPerIncentiveSave;
+  const recoveredARR = grossRecoveredARR - incentiveCost;
+  const recoveredMRR = recoveredARR / 12;
+  const leverContributions: LeverContribution[] = stages.map(stage => ({
+    ...stage,
+    retainedMonths: retainedMonths[stage.stage],
+    recoveredARR: stage.savedSubs * planMonthlyEquivalent * retainedMonths[stage.stage],
+    incentiveCost: stage.stage === "incentive" ? incentiveCost : 0,
+  }));
+  const incentiveStage = leverContributions.find(c => c.stage === "incentive");
+  const incentiveUnprofitable = incentiveStage !== undefined && incentiveStage.incentiveCost > incentiveStage.recoveredARR;
 
   // Determine confidence based on comparable event counts
   // Count includes both merchant and global events
   const comparableCancellationEvents = matchingCancellationEvents.length;
   const comparablePaymentEvents = matchingPaymentEvents.length;
   
-  let comparablePauseEvents = 0;
-  let matchingMerchantPauseEvents: typeof pauseEvents = [];
-  if (input.leverC.pauseEnabled) {
-    const matchingPauseEvents = pauseEvents.filter(e => 
-      e.pauseEnabled && e.pauseCycles <= input.leverC.maxPauseCycles
-    );
-    comparablePauseEvents = matchingPauseEvents.length;
-    matchingMerchantPauseEvents = merchantPauseEvents.filter(e => 
-      e.pauseEnabled && e.pauseCycles <= input.leverC.maxPauseCycles
-    );
-  }
+  const comparablePauseEvents = leverCPauseEvents.length;
   
   const totalComparableEvents = comparableCancellationEvents + comparablePaymentEvents + comparablePauseEvents;
   
@@ -244,8 +488,58 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
     rangeMultiplier = 0.30; // ±30%
   }
 
-  const rangeLow = recoveredARR * (1 - rangeMultiplier);
-  const rangeHigh = recoveredARR * (1 + rangeMultiplier);
+  // Ordered so a negative net recovery still gets low <= high
+  let rangeLow = Math.min(recoveredARR * (1 - rangeMultiplier), recoveredARR * (1 + rangeMultiplier));
+  let rangeHigh = Math.max(recoveredARR * (1 - rangeMultiplier), recoveredARR * (1 + rangeMultiplier));
+
+  // Monte Carlo: draw each lever's rate from its Beta posterior and propagate through the lever sequence
+  let monteCarlo: ChurnMonteCarloResult | undefined;
+  if (input.monteCarlo) {
+    const options = { ...DEFAULT_MONTE_CARLO_OPTIONS, ...input.monteCarlo };
+    const rng = new SeededRNG(options.seed);
+    const arrSamples: number[] = [];
+    const savedSamples: number[] = [];
+
+    // When a lever is at its baseline setting both rates come from the same events, so share the draw
+    const leverAIsBaseline = input.leverA.type === "none";
+    const leverBIsBaseline = isBaselineDunningConfig(input.leverB);
+
+    for (let i = 0; i < options.iterations; i++) {
+      const drawnBaselineNone = drawRate(rng, baselineNoneSaved, baselineNoneEvents.length, 0.05);
+      const drawnBaselineRecovery = drawRate(rng, baselineRecovered, baselinePaymentEvents.length, plan.baselineDunningRecoveryRate);
+      const rates: LeverRates = {
+        baselineNoneSaveRate: drawnBaselineNone,
+        configuredSaveRate: leverAIsBaseline
+          ? drawnBaselineNone
+          : drawRate(rng, configuredSaved, matchingCancellationEvents.length, drawnBaselineNone),
+        baselineRecoveryRate: drawnBaselineRecovery,
+        configuredRecoveryRate: leverBIsBaseline
+          ? drawnBaselineRecovery
+          : drawRate(rng, configuredRecovered, matchingPaymentEvents.length, drawnBaselineRecovery),
+        effectiveResumeRateConfigured: drawRate(rng, configuredResumedNotChurned, leverCPauseEvents.length, 0),
+      };
+      const sampleStages = leverStagesForRates(rates, exposure);
+      const saved = totalSavedSubs(sampleStages);
+      savedSamples.push(saved);
+      arrSamples.push(savedSubMonths(sampleStages, retainedMonths) * planMonthlyEquivalent - incentiveSaves(sampleStages) * costPerIncentiveSave);
+    }
+
+    arrSamples.sort((x, y) => x - y);
+    savedSamples.sort((x, y) => x - y);
+    monteCarlo = {
+      iterations: options.iterations,
+      seed: options.seed,
+      recoveredARR: summarize(arrSamples),
+      savedSubs: summarize(savedSamples),
+      recoveredARRHistogram: buildHistogram(arrSamples, 20),
+      samples: {
+        recoveredARR: arrSamples,
+        savedSubs: savedSamples,
+      },
+    };
+    rangeLow = monteCarlo.recoveredARR.p10;
+    rangeHigh = monteCarlo.recoveredARR.p90;
+  }
 
   // Calculate churn reduction (percentage points)
   const baselineChurn90d = plan.baselineChurn90d;
@@ -260,21 +554,17 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
     ? effectiveSavedSubs / totalExpectedChurn 
     : 0;
 
-  if (pctSavedSubs > 0.30) {
-    warnings.push("This configuration is unusually aggressive; estimated recovery may be overstated and could introduce customer experience risk.");
+  const aggressive = pctSavedSubs > AGGRESSIVE_SAVED_SHARE || isAggressiveLeverConfig(input);
+  if (aggressive) {
+    warnings.push(AGGRESSIVE_WARNING);
   }
-
-  const isAggressive = 
-    (input.leverA.type === "incentive" && input.leverA.incentiveStrength === "heavy") ||
-    input.leverB.retries >= 7 ||
-    input.leverB.retryWindowDays >= 25 ||
-    input.leverC.maxPauseCycles >= 5;
-
-  if (isAggressive && warnings.length === 0) {
-    warnings.push("This configuration is unusually aggressive; estimated recovery may be overstated and could introduce customer experience risk.");
+  if (incentiveUnprofitable) {
+    warnings.push("The incentive's discounts cost more than the ARR it recovers; a lighter incentive or shorter discount may pay off better.");
   }
 
   return {
+    grossRecoveredARR,
+    incentiveCost,
     recoveredARR,
     recoveredMRR,
     savedSubs: effectiveSavedSubs,
@@ -294,6 +584,10 @@ export function simulateChurn(input: ChurnSimulationInput): ChurnSimulationResul
     },
     rangeLow,
     rangeHigh,
-    fatigueFactor,
+    aggressive,
+    incentiveUnprofitable,
+    leverContributions,
+    savedLifetimes,
+    monteCarlo,
   };
 }
@@ -0,0 +1,245 @@
+import type { CancellationEvent, PaymentFailureEvent, PauseEvent } from '../data/types';
+
+export interface SurvivalObservation {
+  time: number; // days until the event, or until observation ended when censored
+  event: boolean; // false when censored: the subject was still active when observation ended
+}
+
+export interface SurvivalPoint {
+  time: number;
+  survival: number; // probability of lasting beyond `time`
+  lower: number; // 95% confidence band (Greenwood variance, log-log transformed)
+  upper: number;
+  atRisk: number; // subjects still under observation just before `time`
+  events: number;
+  censored: number;
+}
+
+export interface SurvivalCurve {
+  points: SurvivalPoint[]; // starts at time 0 with survival 1, then one point per distinct observed time
+  observations: number;
+  events: number;
+  censored: number;
+  medianTime: number | null; // first time survival falls to 0.5 or below; null when it never does
+}
+
+export interface SurvivalGroup {
+  key: string;
+  label: string;
+  curve: SurvivalCurve;
+}
+
+const Z_95 = 1.96;
+
+// Log-log bands stay inside [0, 1] and are better behaved than S ± z·se near the ends of the curve
+function confidenceBand(survival: number, greenwoodSum: number): { lower: number; upper: number } {
+  if (survival <= 0 || survival >= 1 || !Number.isFinite(greenwoodSum)) {
+    return { lower: survival, upper: survival };
+  }
+  const se = Math.sqrt(greenwoodSum) / Math.abs(Math.log(survival));
+  return {
+    lower: Math.pow(survival, Math.exp(Z_95 * se)),
+    upper: Math.pow(survival, Math.exp(-Z_95 * se)),
+  };
+}
+
+/**
+ * Kaplan–Meier estimate of the survival function. Censored observations leave the risk set
+ * after their time without counting as events, so subjects still active at the end of the
+ * data don't drag the curve down.
+ */
+export function kaplanMeier(observations: SurvivalObservation[]): SurvivalCurve {
+  const sorted = [...observations].sort((a, b) => a.time - b.time);
+  const points: SurvivalPoint[] = [{ time: 0, survival: 1, lower: 1, upper: 1, atRisk: sorted.length, events: 0, censored: 0 }];
+  let atRisk = sorted.length;
+  let survival = 1;
+  let greenwoodSum = 0; // Σ d / (n (n - d)) over event times so far
+  let medianTime: number | null = null;
+  let totalEvents = 0;
+
+  for (let i = 0; i < sorted.length;) {
+    const time = sorted[i].time;
+    let events = 0;
+    let censored = 0;
+    for (; i < sorted.length && sorted[i].time === time; i++) {
+      if (sorted[i].event) events++;
+      else censored++;
+    }
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      greenwoodSum += events < atRisk ? events / (atRisk * (atRisk - events)) : Infinity;
+    }
+    if (medianTime === null && survival <= 0.5) medianTime = time;
+    const point = { time, survival, ...confidenceBand(survival, greenwoodSum), atRisk, events, censored };
+    if (time === 0) {
+      points[0] = point;
+    } else {
+      points.push(point);
+    }
+    atRisk -= events + censored;
+    totalEvents += events;
+  }
+
+  return {
+    points,
+    observations: sorted.length,
+    events: totalEvents,
+    censored: sorted.length - totalEvents,
+    medianTime,
+  };
+}
+
+// The curve is a step function: survival and its band hold until the next observed time
+export function survivalAt(curve: SurvivalCurve, time: number): SurvivalPoint {
+  let current = curve.points[0];
+  for (const point of curve.points) {
+    if (point.time > time) break;
+    current = point;
+  }
+  return current;
+}
+
+/**
+ * Area under the curve up to `horizon`: the expected time survived within the horizon.
+ * Past the last observed time the curve is held flat, which is exact when the last
+ * observation is an event and optimistic when it is censored.
+ */
+export function restrictedMeanSurvival(curve: SurvivalCurve, horizon: number): number {
+  let area = 0;
+  let survival = 1;
+  let from = 0;
+  for (const point of curve.points) {
+    if (point.time >= horizon) break;
+    area += survival * (point.time - from);
+    survival = point.survival;
+    from = point.time;
+  }
+  return area + survival * (horizon - from);
+}
+
+/**
+ * How long saved subscribers lasted after the save. A lifetime reaching the end of the data
+ * (`observationEnd`, epoch ms) means the subscriber was still active, so it is censored there.
+ */
+export function postSaveLifetimes(events: CancellationEvent[], observationEnd: number): SurvivalObservation[] {
+  const observations: SurvivalObservation[] = [];
+  for (const event of events) {
+    if (event.outcome !== "saved" || event.postEventLifetimeDays === undefined) continue;
+    const daysObserved = Math.max((observationEnd - event.eventDate.getTime()) / (1000 * 60 * 60 * 24), 0);
+    observations.push(event.postEventLifetimeDays < daysObserved
+      ? { time: event.postEventLifetimeDays, event: true }
+      : { time: daysObserved, event: false });
+  }
+  return observations;
+}
+
+/**
+ * How long failed payments took to recover, so the curve is the share still unrecovered.
+ * Payments that never recovered are censored when their retry window closed, and payments
+ * whose window was still open at `observationEnd` are censored there.
+ */
+export function recoveryTimes(events: PaymentFailureEvent[], observationEnd: number): SurvivalObservation[] {
+  return events.map(event => {
+    const daysObserved = Math.max((observationEnd - event.eventDate.getTime()) / (1000 * 60 * 60 * 24), 0);
+    if (event.recovered && event.recoveryDays !== undefined && event.recoveryDays <= daysObserved) {
+      return { time: event.recoveryDays, event: true };
+    }
+    return { time: Math.min(event.retryWindowDays, daysObserved), event: false };
+  });
+}
+
+// Pause events only record whether a resumed subscriber churned within this many days
+export const POST_RESUME_WINDOW_DAYS = 90;
+
+/**
+ * Churn after a pause, for subscribers who resumed. Only the 90-day outcome is recorded, so a
+ * churn counts at the end of the window (or of the data, for recent pauses) and each curve has
+ * a single step; subscribers who stayed are censored at the same point.
+ */
+export function postResumeChurn(events: PauseEvent[], observationEnd: number): SurvivalObservation[] {
+  const observations: SurvivalObservation[] = [];
+  for (const event of events) {
+    if (!event.resumed || event.churnedWithin90d === undefined) continue;
+    const daysObserved = Math.max((observationEnd - event.eventDate.getTime()) / (1000 * 60 * 60 * 24), 0);
+    observations.push({ time: Math.min(POST_RESUME_WINDOW_DAYS, daysObserved), event: event.churnedWithin90d });
+  }
+  return observations;
+}
+
+/**
+ * One curve per group, largest group first. Events `groupOf` maps to null are left out.
+ */
+export function survivalByGroup<E>(
+  events: E[],
+  groupOf: (event: E) => { key: string; label: string } | null,
+  observe: (events: E[]) => SurvivalObservation[]
+): SurvivalGroup[] {
+  const groups = new Map<string, { label: string; events: E[] }>();
+  for (const event of events) {
+    const group = groupOf(event);
+    if (!group) continue;
+    const existing = groups.get(group.key);
+    if (existing) {
+      existing.events.push(event);
+    } else {
+      groups.set(group.key, { label: group.label, events: [event] });
+    }
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, label: group.label, curve: kaplanMeier(observe(group.events)) }))
+    .sort((a, b) => b.curve.observations - a.curve.observations);
+}
+
+export const INTERVENTION_LABELS: Record<CancellationEvent["interventionType"], string> = {
+  none: "No intervention",
+  survey: "Survey",
+  pause: "Pause offer",
+  incentive: "Incentive",
+};
+
+export function postSaveLifetimeCurves(events: CancellationEvent[], observationEnd: number): SurvivalGroup[] {
+  return survivalByGroup(
+    events,
+    event => event.interventionType === "incentive"
+      ? { key: `incentive|${event.incentiveStrength}`, label: `Incentive (${event.incentiveStrength})` }
+      : { key: event.interventionType, label: INTERVENTION_LABELS[event.interventionType] },
+    group => postSaveLifetimes(group, observationEnd)
+  );
+}
+
+export type DunningGrouping = "retries" | "fallback" | "config";
+
+export const DUNNING_GROUPING_LABELS: Record<DunningGrouping, string> = {
+  retries: "Retries",
+  fallback: "Fallback payment method",
+  config: "Full dunning config",
+};
+
+function dunningGroup(event: PaymentFailureEvent, groupBy: DunningGrouping): { key: string; label: string } {
+  const fallback = event.fallbackEnabled ? "fallback" : "no fallback";
+  switch (groupBy) {
+    case "retries":
+      return { key: String(event.retries), label: `${event.retries} retries` };
+    case "fallback":
+      return { key: fallback, label: event.fallbackEnabled ? "Fallback enabled" : "No fallback" };
+    case "config":
+      return {
+        key: `${event.retries}|${event.retryWindowDays}|${event.fallbackEnabled}`,
+        label: `${event.retries} retries / ${event.retryWindowDays}d, ${fallback}`,
+      };
+  }
+}
+
+export function recoveryTimeCurves(events: PaymentFailureEvent[], observationEnd: number, groupBy: DunningGrouping): SurvivalGroup[] {
+  return survivalByGroup(events, event => dunningGroup(event, groupBy), group => recoveryTimes(group, observationEnd));
+}
+
+export function postResumeChurnCurves(events: PauseEvent[], observationEnd: number): SurvivalGroup[] {
+  return survivalByGroup(
+    events,
+    event => event.pauseEnabled
+      ? { key: String(event.pauseCycles), label: `${event.pauseCycles} pause cycle${event.pauseCycles > 1 ? "s" : ""}` }
+      : null,
+    group => postResumeChurn(group, observationEnd)
+  );
+}
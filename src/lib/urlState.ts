@@ -0,0 +1,158 @@
+import type { z } from 'zod';
+import type { Dataset } from '../data/types';
+import { getDatasetIndex } from '../data/datasetIndex';
+import { simulationInputSchema, churnSimulationInputSchema, formatIssues } from './inputSchemas';
+import type { SimulationInput } from './simulate';
+import type { ChurnSimulationInput } from './simulateChurn';
+
+// Query-string encoding of simulator inputs, so a link reproduces the exact scenario
+
+export type LinkedInput<T> =
+  | { status: "valid"; input: T }
+  | { status: "invalid"; message: string };
+
+const SIMULATION_PARAM_KEYS = ["merchant", "plan", "price", "global", "estimator", "halfLife", "discount", "rollout", "grandfathered", "phaseMonths", "renewal"];
+const CHURN_PARAM_KEYS = ["merchant", "plan", "intervention", "incentive", "discount", "discountMonths", "retries", "retryWindow", "fallback", "pause", "pauseCycles", "mc", "mcIterations", "mcSeed"];
+
+function setParam(params: URLSearchParams, key: string, value: string | number | boolean | undefined) {
+  if (value === undefined) return;
+  params.set(key, typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+}
+
+// Missing params stay undefined so schema defaults and optional fields apply; malformed ones fail validation
+function numberParam(params: URLSearchParams, key: string): number | undefined {
+  const value = params.get(key);
+  return value === null ? undefined : Number(value);
+}
+
+function booleanParam(params: URLSearchParams, key: string): boolean | undefined {
+  const value = params.get(key);
+  return value === null ? undefined : value === "1" || value === "true";
+}
+
+// Absent params must not become explicit undefined keys, which would override defaults spread after them
+function compact<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function checkIds(dataset: Dataset, merchantId: string, planId: string): string | null {
+  if (!dataset.merchants.some(m => m.id === merchantId)) {
+    return `Merchant "${merchantId}" is not in the current dataset`;
+  }
+  const plan = getDatasetIndex(dataset).planById.get(planId);
+  if (!plan || plan.merchantId !== merchantId) {
+    return `Plan "${planId}" does not belong to merchant "${merchantId}" in the current dataset`;
+  }
+  return null;
+}
+
+function toLinkedInput<T extends { merchantId: string; planId: string }>(dataset: Dataset, parsed: z.ZodSafeParseResult<T>): LinkedInput<T> {
+  if (!parsed.success) {
+    return { status: "invalid", message: `Invalid link parameters (${formatIssues(parsed.error).join("; ")})` };
+  }
+  const idError = checkIds(dataset, parsed.data.merchantId, parsed.data.planId);
+  return idError ? { status: "invalid", message: idError } : { status: "valid", input: parsed.data };
+}
+
+export function encodeSimulationParams(input: SimulationInput): URLSearchParams {
+  const params = new URLSearchParams();
+  setParam(params, "merchant", input.merchantId);
+  setParam(params, "plan", input.planId);
+  setParam(params, "price", input.newPriceMonthly);
+  setParam(params, "global", input.useGlobalBenchmarks);
+  setParam(params, "estimator", input.estimator);
+  setParam(params, "halfLife", input.recencyHalfLifeDays);
+  setParam(params, "discount", input.annualDiscountRate);
+  if (input.rollout) {
+    setParam(params, "rollout", input.rollout.mode);
+    if (input.rollout.mode === "grandfather") setParam(params, "grandfathered", input.rollout.grandfatheredShare);
+    if (input.rollout.mode === "phased") setParam(params, "phaseMonths", input.rollout.phaseMonths);
+  }
+  setParam(params, "renewal", input.renewalDistribution);
+  return params;
+}
+
+/**
+ * Read a price simulation from the query string. Returns null when the URL carries no
+ * simulation params; otherwise the input, or why it can't be used with this dataset.
+ */
+export function decodeSimulationParams(params: URLSearchParams, dataset: Dataset): LinkedInput<SimulationInput> | null {
+  if (!SIMULATION_PARAM_KEYS.some(key => params.has(key))) return null;
+  const rolloutMode = params.get("rollout");
+  const parsed = simulationInputSchema.safeParse(compact({
+    merchantId: params.get("merchant") ?? undefined,
+    planId: params.get("plan") ?? undefined,
+    newPriceMonthly: numberParam(params, "price"),
+    useGlobalBenchmarks: booleanParam(params, "global"),
+    estimator: params.get("estimator") ?? undefined,
+    recencyHalfLifeDays: numberParam(params, "halfLife"),
+    annualDiscountRate: numberParam(params, "discount"),
+    rollout: rolloutMode === null ? undefined : compact({
+      mode: rolloutMode,
+      grandfatheredShare: numberParam(params, "grandfathered"),
+      phaseMonths: numberParam(params, "phaseMonths"),
+    }),
+    renewalDistribution: params.get("renewal") ?? undefined,
+  }));
+  return toLinkedInput(dataset, parsed);
+}
+
+export function encodeChurnParams(input: ChurnSimulationInput): URLSearchParams {
+  const params = new URLSearchParams();
+  setParam(params, "merchant", input.merchantId);
+  setParam(params, "plan", input.planId);
+  setParam(params, "intervention", input.leverA.type);
+  setParam(params, "incentive", input.leverA.incentiveStrength);
+  // Only the selected strength's terms matter for the run
+  const strength = input.leverA.incentiveStrength;
+  const terms = strength && strength !== "none" ? input.incentiveTerms?.[strength] : undefined;
+  if (terms) {
+    setParam(params, "discount", terms.discountPct);
+    setParam(params, "discountMonths", terms.months);
+  }
+  setParam(params, "retries", input.leverB.retries);
+  setParam(params, "retryWindow", input.leverB.retryWindowDays);
+  setParam(params, "fallback", input.leverB.fallbackEnabled);
+  setParam(params, "pause", input.leverC.pauseEnabled);
+  setParam(params, "pauseCycles", input.leverC.maxPauseCycles);
+  if (input.monteCarlo) {
+    setParam(params, "mc", true);
+    setParam(params, "mcIterations", input.monteCarlo.iterations);
+    setParam(params, "mcSeed", input.monteCarlo.seed);
+  }
+  return params;
+}
+
+/**
+ * Read a churn lever simulation from the query string; same contract as `decodeSimulationParams`.
+ */
+export function decodeChurnParams(params: URLSearchParams, dataset: Dataset): LinkedInput<ChurnSimulationInput> | null {
+  if (!CHURN_PARAM_KEYS.some(key => params.has(key))) return null;
+  const strength = params.get("incentive");
+  const hasTerms = strength !== null && strength !== "none" && (params.has("discount") || params.has("discountMonths"));
+  const parsed = churnSimulationInputSchema.safeParse({
+    merchantId: params.get("merchant") ?? undefined,
+    planId: params.get("plan") ?? undefined,
+    leverA: compact({
+      type: params.get("intervention") ?? undefined,
+      incentiveStrength: params.get("incentive") ?? undefined,
+    }),
+    leverB: {
+      retries: numberParam(params, "retries"),
+      retryWindowDays: numberParam(params, "retryWindow"),
+      fallbackEnabled: booleanParam(params, "fallback"),
+    },
+    leverC: {
+      pauseEnabled: booleanParam(params, "pause"),
+      maxPauseCycles: numberParam(params, "pauseCycles"),
+    },
+    incentiveTerms: hasTerms ? {
+      [strength]: { discountPct: numberParam(params, "discount"), months: numberParam(params, "discountMonths") },
+    } : undefined,
+    monteCarlo: booleanParam(params, "mc") ? compact({
+      iterations: numberParam(params, "mcIterations"),
+      seed: numberParam(params, "mcSeed"),
+    }) : undefined,
+  });
+  return toLinkedInput(dataset, parsed);
+}
@@ -28,6 +28,43 @@ export class SeededRNG {
     return arr[this.int(0, arr.length - 1)];
   }
 
+  // Standard normal sample (Box-Muller)
+  normal(): number {
+    const u1 = 1 - this.next(); // (0, 1] so log is finite
+    const u2 = this.next();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  // Gamma(shape, 1) sample (Marsaglia-Tsang)
+  gamma(shape: number): number {
+    if (shape < 1) {
+      // Boost small shapes: Gamma(a) = Gamma(a + 1) * U^(1/a)
+      return this.gamma(shape + 1) * Math.pow(1 - this.next(), 1 / shape);
+    }
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.normal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = 1 - this.next();
+      if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+        return d * v;
+      }
+    }
+  }
+
+  // Beta(alpha, beta) sample
+  beta(alpha: number, beta: number): number {
+    const x = this.gamma(alpha);
+    const y = this.gamma(beta);
+    return x / (x + y);
+  }
+
   // Shuffle array (Fisher-Yates)
   shuffle<T>(arr: T[]): T[] {
     const result = [...arr];
@@ -43,6 +80,15 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+// Quantile of an ascending-sorted array using linear interpolation (p in 0-1)
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = clamp(p, 0, 1) * (sorted.length - 1);
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
 export function formatCurrency(value: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -3,11 +3,15 @@ import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
+import { DatasetProvider } from './components/DatasetProvider'
+import { dataset, SAMPLE_SEED } from './data/sampleData'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
-      <App />
+      <DatasetProvider initialDatasets={[{ id: 'sample', name: `Sample data (seed ${SAMPLE_SEED})`, dataset }]}>
+        <App />
+      </DatasetProvider>
     </BrowserRouter>
   </StrictMode>,
 )
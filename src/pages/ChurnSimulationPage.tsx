@@ -1,34 +1,63 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { dataset, TEST_MERCHANT_ID } from '../data/sampleData';
-import { simulateChurn, type ChurnSimulationResult } from '../lib/simulateChurn';
+import { getDefaultMerchantId } from '../data/sampleData';
+import { useDatasetRegistry } from '../data/datasetContext';
+import { saveScenario } from '../data/scenarioStore';
+import { simulateChurn, isAggressiveLeverConfig, incentiveTermsFor, LEVER_STAGE_LABELS, DEFAULT_INCENTIVE_TERMS, type ChurnSimulationInput, type ChurnSimulationResult, type LeverConfig, type IncentiveTerms, type IncentiveTermsByStrength } from '../lib/simulateChurn';
+import { churnScenarioMetrics } from '../lib/scenarios';
+import { INTERVENTION_LABELS } from '../lib/survival';
+import { decodeChurnParams, encodeChurnParams } from '../lib/urlState';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Select } from '../components/ui/Select';
 import { Badge } from '../components/ui/Badge';
 import { Modal } from '../components/ui/Modal';
-import { formatCurrency, formatPercent, formatNumber } from '../lib/utils';
+import { SaveScenarioForm } from '../components/SaveScenarioForm';
+import { ChurnLeverOptimizerCard } from '../components/ChurnLeverOptimizerCard';
+import { clamp, formatCurrency, formatPercent, formatNumber } from '../lib/utils';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import type { InterventionType, IncentiveStrength } from '../data/types';
 
+// Form fields hold percentages; inputs and links hold fractions
+const toPercentInput = (fraction: number) => String(Number((fraction * 100).toFixed(4)));
+
 export function ChurnSimulationPage() {
-  const [merchantId, setMerchantId] = useState<string>(TEST_MERCHANT_ID);
-  const [planId, setPlanId] = useState<string>("");
+  const { dataset, datasets, activeDatasetId } = useDatasetRegistry();
+  const datasetName = datasets.find(d => d.id === activeDatasetId)?.name ?? activeDatasetId;
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A shared link seeds the levers once, on first render; later runs write their inputs back to the URL
+  const [linked] = useState(() => decodeChurnParams(searchParams, dataset));
+  const linkedInput = linked?.status === "valid" ? linked.input : undefined;
+  const [linkError, setLinkError] = useState<string | null>(linked?.status === "invalid" ? linked.message : null);
+  const [merchantId, setMerchantId] = useState<string>(() => linkedInput?.merchantId ?? getDefaultMerchantId(dataset));
+  const [planId, setPlanId] = useState<string>(linkedInput?.planId ?? "");
   
   // Lever A: Cancellation intervention
-  const [interventionType, setInterventionType] = useState<InterventionType>("none");
-  const [incentiveStrength, setIncentiveStrength] = useState<IncentiveStrength>("none");
+  const [interventionType, setInterventionType] = useState<InterventionType>(linkedInput?.leverA.type ?? "none");
+  const [incentiveStrength, setIncentiveStrength] = useState<IncentiveStrength>(linkedInput?.leverA.incentiveStrength ?? "none");
   
   // Lever B: Dunning aggressiveness
-  const [retries, setRetries] = useState<number>(3);
-  const [retryWindowDays, setRetryWindowDays] = useState<number>(7);
-  const [fallbackEnabled, setFallbackEnabled] = useState<boolean>(false);
+  const [retries, setRetries] = useState<number>(linkedInput?.leverB.retries ?? 3);
+  const [retryWindowDays, setRetryWindowDays] = useState<number>(linkedInput?.leverB.retryWindowDays ?? 7);
+  const [fallbackEnabled, setFallbackEnabled] = useState<boolean>(linkedInput?.leverB.fallbackEnabled ?? false);
   
   // Lever C: Pause policy
-  const [pauseEnabled, setPauseEnabled] = useState<boolean>(false);
-  const [maxPauseCycles, setMaxPauseCycles] = useState<number>(1);
+  const [pauseEnabled, setPauseEnabled] = useState<boolean>(linkedInput?.leverC.pauseEnabled ?? false);
+  const [maxPauseCycles, setMaxPauseCycles] = useState<number>(linkedInput?.leverC.maxPauseCycles ?? 1);
+
+  // Discount terms per strength; only the selected strength's terms go into a run
+  const [incentiveTerms, setIncentiveTerms] = useState<IncentiveTermsByStrength>(() => ({
+    ...DEFAULT_INCENTIVE_TERMS,
+    ...linkedInput?.incentiveTerms,
+  }));
+
+  const [useMonteCarlo, setUseMonteCarlo] = useState<boolean>(linkedInput?.monteCarlo !== undefined);
+  // Iterations and seed aren't editable here, but a link may carry them
+  const [monteCarloOptions] = useState(linkedInput?.monteCarlo ?? {});
   
   const [result, setResult] = useState<ChurnSimulationResult | null>(null);
+  const [resultInput, setResultInput] = useState<ChurnSimulationInput | null>(null);
   const [showAssumptions, setShowAssumptions] = useState(false);
   const [showWarning, setShowWarning] = useState(false);
   const [skipWarnings, setSkipWarnings] = useState(false);
@@ -37,7 +66,7 @@ export function ChurnSimulationPage() {
   // Get available plans for selected merchant
   const availablePlans = useMemo(() => {
     return dataset.plans.filter(p => p.merchantId === merchantId);
-  }, [merchantId]);
+  }, [dataset, merchantId]);
 
   // Track previous availablePlans to detect changes
   const prevAvailablePlansRef = useRef(availablePlans);
@@ -58,29 +87,56 @@ export function ChurnSimulationPage() {
   }, [availablePlans, planId]);
 
   const selectedPlan = dataset.plans.find(p => p.id === planId);
+  const resultIncentiveTerms = resultInput ? incentiveTermsFor(resultInput) : null;
+
+  const leverConfig: LeverConfig = {
+    leverA: {
+      type: interventionType,
+      incentiveStrength: interventionType === "incentive" ? incentiveStrength : undefined,
+    },
+    leverB: {
+      retries,
+      retryWindowDays,
+      fallbackEnabled,
+    },
+    leverC: {
+      pauseEnabled,
+      maxPauseCycles,
+    },
+  };
+
+  const updateIncentiveTerms = (strength: keyof IncentiveTermsByStrength, update: Partial<IncentiveTerms>) => {
+    setIncentiveTerms(prev => ({ ...prev, [strength]: { ...prev[strength], ...update } }));
+  };
+
+  const applyLeverConfig = (config: LeverConfig) => {
+    setInterventionType(config.leverA.type);
+    setIncentiveStrength(config.leverA.incentiveStrength ?? "none");
+    setRetries(config.leverB.retries);
+    setRetryWindowDays(config.leverB.retryWindowDays);
+    setFallbackEnabled(config.leverB.fallbackEnabled);
+    setPauseEnabled(config.leverC.pauseEnabled);
+    setMaxPauseCycles(config.leverC.maxPauseCycles);
+    setResult(null);
+  };
 
   const runSimulation = () => {
     if (!planId || !selectedPlan) return;
 
     try {
-      const simResult = simulateChurn({
+      const input: ChurnSimulationInput = {
         merchantId,
         planId,
-        leverA: {
-          type: interventionType,
-          incentiveStrength: interventionType === "incentive" ? incentiveStrength : undefined,
-        },
-        leverB: {
-          retries,
-          retryWindowDays,
-          fallbackEnabled,
-        },
-        leverC: {
-          pauseEnabled,
-          maxPauseCycles,
-        },
-      });
-      setResult(simResult);
+        ...leverConfig,
+        incentiveTerms: interventionType === "incentive" && incentiveStrength !== "none"
+          ? { [incentiveStrength]: incentiveTerms[incentiveStrength] }
+          : undefined,
+        monteCarlo: useMonteCarlo ? monteCarloOptions : undefined,
+      };
+      setSearchParams(encodeChurnParams(input), { replace: true });
+      setLinkError(null);
+      setResult(simulateChurn(dataset, input));
+      setResultInput(input);
       if (acknowledgedAggressive) {
         setAcknowledgedAggressive(true);
       }
@@ -92,14 +148,7 @@ export function ChurnSimulationPage() {
   const handleSimulate = () => {
     if (!planId || !selectedPlan) return;
 
-    // Check if configuration is aggressive
-    const isAggressive = 
-      (interventionType === "incentive" && incentiveStrength === "heavy") ||
-      retries >= 7 ||
-      retryWindowDays >= 25 ||
-      maxPauseCycles >= 5;
-
-    if (!skipWarnings && isAggressive) {
+    if (!skipWarnings && isAggressiveLeverConfig(leverConfig)) {
       setShowWarning(true);
       return;
     }
@@ -107,6 +156,14 @@ export function ChurnSimulationPage() {
     runSimulation();
   };
 
+  // Run a shared link's scenario once the levers have been seeded from it; aggressive settings still ask first
+  const autoRunPendingRef = useRef(linkedInput !== undefined);
+  useEffect(() => {
+    if (!autoRunPendingRef.current) return;
+    autoRunPendingRef.current = false;
+    queueMicrotask(handleSimulate);
+  });
+
   const handleRunAnyway = () => {
     setShowWarning(false);
     setAcknowledgedAggressive(true);
@@ -184,6 +241,14 @@ export function ChurnSimulationPage() {
         </p>
       </div>
 
+      {linkError && (
+        <Card className="mb-6 bg-amber-50 border-amber-200/60">
+          <p className="text-sm text-amber-800">
+            <span className="font-semibold">The shared link could not be opened:</span> {linkError}. Showing the default levers instead.
+          </p>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left Panel - Inputs */}
         <div className="space-y-6">
@@ -265,9 +330,8 @@ export function ChurnSimulationPage() {
                       value={interventionType}
                       onChange={(e) => {
                         setInterventionType(e.target.value as InterventionType);
-                        if (e.target.value !== "incentive") {
-                          setIncentiveStrength("none");
-                        }
+                        // Match the strength select, which has no "none" option
+                        setIncentiveStrength(e.target.value === "incentive" ? "light" : "none");
                         setResult(null);
                       }}
                     >
@@ -295,6 +359,41 @@ export function ChurnSimulationPage() {
                       </Select>
                     </div>
                   )}
+                  {interventionType === "incentive" && incentiveStrength !== "none" && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                          Discount (%)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={toPercentInput(incentiveTerms[incentiveStrength].discountPct)}
+                          onChange={(e) => {
+                            updateIncentiveTerms(incentiveStrength, { discountPct: clamp((parseFloat(e.target.value) || 0) / 100, 0, 1) });
+                            setResult(null);
+                          }}
+                          className="w-full px-4 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                          Discounted Months
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={incentiveTerms[incentiveStrength].months}
+                          onChange={(e) => {
+                            updateIncentiveTerms(incentiveStrength, { months: Math.max(parseInt(e.target.value) || 0, 0) });
+                            setResult(null);
+                          }}
+                          className="w-full px-4 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -406,6 +505,27 @@ export function ChurnSimulationPage() {
                 </div>
               </div>
 
+              {/* Uncertainty */}
+              <div className="pt-4 border-t border-slate-200">
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useMonteCarlo}
+                    onChange={(e) => {
+                      setUseMonteCarlo(e.target.checked);
+                      setResult(null);
+                    }}
+                    className="w-4 h-4 text-primary-600 border-slate-300 rounded focus:ring-primary-500 focus:ring-2"
+                  />
+                  <span className="text-sm font-semibold text-slate-700">
+                    Monte Carlo Uncertainty
+                  </span>
+                </label>
+                <p className="text-xs text-slate-500 mt-1.5 ml-7">
+                  Draw each lever's rate from the observed event counts and show the distribution of outcomes
+                </p>
+              </div>
+
               <Button
                 onClick={handleSimulate}
                 disabled={!planId || !selectedPlan}
@@ -415,6 +535,17 @@ export function ChurnSimulationPage() {
               </Button>
             </div>
           </Card>
+
+          {selectedPlan && (
+            <ChurnLeverOptimizerCard
+              key={`${merchantId}-${planId}`}
+              dataset={dataset}
+              merchantId={merchantId}
+              planId={planId}
+              incentiveTerms={incentiveTerms}
+              onApply={applyLeverConfig}
+            />
+          )}
         </div>
 
         {/* Right Panel - Results */}
@@ -438,12 +569,14 @@ export function ChurnSimulationPage() {
               {/* Recovered ARR Card - Primary */}
               <Card className="bg-gradient-to-br from-emerald-50 to-emerald-100/50 border-emerald-200/60">
                 <div className="text-center">
-                  <div className="text-sm text-slate-600 mb-2 font-semibold uppercase tracking-wide">Recovered ARR</div>
+                  <div className="text-sm text-slate-600 mb-2 font-semibold uppercase tracking-wide">
+                    {result.incentiveCost > 0 ? "Net Recovered ARR" : "Recovered ARR"}
+                  </div>
                   <div className="text-5xl font-bold mb-3 tracking-tight text-emerald-700">
                     {formatCurrency(result.recoveredARR)} / year
                   </div>
                   <div className="text-lg text-slate-600 mb-2">
-                    Range: {formatCurrency(result.rangeLow)} to {formatCurrency(result.rangeHigh)}
+                    {result.monteCarlo ? "P10–P90" : "Range"}: {formatCurrency(result.rangeLow)} to {formatCurrency(result.rangeHigh)}
                   </div>
                   <div className="flex items-center justify-center gap-2 mb-4">
                     <Badge variant={result.confidence === "High" ? "success" : result.confidence === "Med" ? "warning" : "danger"}>
@@ -460,21 +593,109 @@ export function ChurnSimulationPage() {
                     <span className="text-sm text-slate-600 font-medium">Saved Subscriptions:</span>
                     <span className="font-semibold text-slate-900">{formatNumber(Math.round(result.savedSubs))}</span>
                   </div>
+                  {result.incentiveCost > 0 && (
+                    <>
+                      <div className="flex justify-between items-center py-2 border-b border-slate-200/60">
+                        <span className="text-sm text-slate-600 font-medium">Gross Recovered ARR:</span>
+                        <span className="font-semibold text-slate-900">{formatCurrency(result.grossRecoveredARR)}</span>
+                      </div>
+                      <div className="flex justify-between items-center py-2 border-b border-slate-200/60">
+                        <span className="text-sm text-slate-600 font-medium">Incentive Cost:</span>
+                        <span className={`font-semibold ${result.incentiveUnprofitable ? "text-red-700" : "text-slate-900"}`}>
+                          -{formatCurrency(result.incentiveCost)}
+                        </span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between items-center py-2 border-b border-slate-200/60">
                     <span className="text-sm text-slate-600 font-medium">Recovered MRR:</span>
                     <span className="font-semibold text-slate-900">{formatCurrency(result.recoveredMRR)}</span>
                   </div>
-                  <div className="flex justify-between items-center py-2 border-b border-slate-200/60">
+                  <div className="flex justify-between items-center py-2">
                     <span className="text-sm text-slate-600 font-medium">Churn Reduction (pp):</span>
                     <span className="font-semibold text-slate-900">{result.churnReductionPp.toFixed(2)}pp</span>
                   </div>
-                  <div className="flex justify-between items-center py-2">
-                    <span className="text-sm text-slate-600 font-medium">Fatigue Factor Applied:</span>
-                    <span className="font-semibold text-slate-900">{formatPercent(result.fatigueFactor)}</span>
-                  </div>
                 </div>
               </Card>
 
+              {/* Lever Contributions */}
+              <Card title="Lever Contributions">
+                <div className="mb-4 text-sm text-slate-600">
+                  Levers act in order on the subscribers still at risk; dunning works on failed payments separately
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Lever</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">At Risk</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Save Rate</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Saved</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Months Kept</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Recovered ARR</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                      {result.leverContributions.map(contribution => (
+                        <tr key={contribution.stage}>
+                          <td className="px-4 py-3 text-sm text-slate-900 font-medium">{LEVER_STAGE_LABELS[contribution.stage]}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(Math.round(contribution.atRiskSubs))}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{formatPercent(contribution.saveRate)}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(Math.round(contribution.savedSubs))}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{contribution.retainedMonths.toFixed(1)}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{formatCurrency(contribution.recoveredARR)}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{contribution.incentiveCost > 0 ? formatCurrency(contribution.incentiveCost) : "-"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+
+              {/* Saved Subscriber Lifetime */}
+              {result.savedLifetimes.length > 0 && (
+                <Card title="Saved Subscriber Lifetime">
+                  <div className="mb-4 text-sm text-slate-600">
+                    How long saved subscribers stayed after the save; those still active at the end of the data are censored
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                      <thead className="bg-slate-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Intervention</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Saves Tracked</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Median Lifetime</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Months Kept (1st Year)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-slate-200">
+                        {result.savedLifetimes.map(lifetime => (
+                          <tr key={lifetime.interventionType}>
+                            <td className="px-4 py-3 text-sm text-slate-900 font-medium">
+                              {INTERVENTION_LABELS[lifetime.interventionType]}
+                              {lifetime.pooled && <div className="text-xs text-slate-500 font-normal">Too few saves; all saves on the plan used</div>}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-slate-900">
+                              {formatNumber(lifetime.curve.observations)}
+                              <span className="text-xs text-slate-500"> ({formatNumber(lifetime.curve.censored)} still active)</span>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-slate-900">
+                              {lifetime.curve.observations === 0
+                                ? "No data"
+                                : lifetime.curve.medianTime !== null
+                                  ? `${formatNumber(Math.round(lifetime.curve.medianTime))} days`
+                                  : "Not reached"}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-slate-900">{lifetime.retainedMonths.toFixed(1)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+              )}
+
               {/* Evidence Card */}
               <Card title="Evidence">
                 <div className="mb-4 text-sm text-slate-600 font-medium">
@@ -537,6 +758,61 @@ export function ChurnSimulationPage() {
                 </ResponsiveContainer>
               </Card>
 
+              {/* Monte Carlo Distribution */}
+              {result.monteCarlo && (
+                <Card title="Recovered ARR Distribution">
+                  <div className="mb-4 grid grid-cols-3 gap-3 text-sm">
+                    <div className="text-center">
+                      <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide">P10</div>
+                      <div className="font-semibold text-slate-900">{formatCurrency(result.monteCarlo.recoveredARR.p10)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide">Median</div>
+                      <div className="font-semibold text-slate-900">{formatCurrency(result.monteCarlo.recoveredARR.p50)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide">P90</div>
+                      <div className="font-semibold text-slate-900">{formatCurrency(result.monteCarlo.recoveredARR.p90)}</div>
+                    </div>
+                  </div>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <BarChart
+                      data={result.monteCarlo.recoveredARRHistogram.map(bin => ({
+                        ...bin,
+                        midpoint: (bin.binStart + bin.binEnd) / 2,
+                      }))}
+                      barCategoryGap={1}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis 
+                        dataKey="midpoint" 
+                        tickFormatter={(value) => formatCurrency(value)}
+                        tick={{ fill: '#64748b', fontSize: 11 }}
+                        axisLine={{ stroke: '#cbd5e1' }}
+                      />
+                      <YAxis 
+                        tick={{ fill: '#64748b', fontSize: 12 }}
+                        axisLine={{ stroke: '#cbd5e1' }}
+                      />
+                      <Tooltip 
+                        labelFormatter={(value) => `~${formatCurrency(Number(value))}`}
+                        formatter={(value: number | undefined) => value !== undefined ? [formatNumber(value), 'Draws'] : ''}
+                        contentStyle={{ 
+                          backgroundColor: 'white', 
+                          border: '1px solid #e2e8f0', 
+                          borderRadius: '8px',
+                          boxShadow: '0 4px 16px 0 rgba(0, 0, 0, 0.08)'
+                        }}
+                      />
+                      <Bar dataKey="count" fill="#6366f1" radius={[2, 2, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <div className="mt-4 text-xs text-slate-500">
+                    {formatNumber(result.monteCarlo.iterations)} draws (seed {result.monteCarlo.seed}). Saved subscriptions: {formatNumber(Math.round(result.monteCarlo.savedSubs.p10))}–{formatNumber(Math.round(result.monteCarlo.savedSubs.p90))} (P10–P90).
+                  </div>
+                </Card>
+              )}
+
               {/* Warnings */}
               {result.warnings.length > 0 && (
                 <Card className="bg-amber-50 border-amber-200/60">
@@ -551,6 +827,23 @@ export function ChurnSimulationPage() {
                 </Card>
               )}
 
+              {resultInput && selectedPlan && (
+                <SaveScenarioForm
+                  key={JSON.stringify(resultInput)}
+                  defaultName={`${selectedPlan.name} churn levers`}
+                  onSave={(name) => saveScenario({
+                    kind: "churn",
+                    name,
+                    datasetName,
+                    merchantId: resultInput.merchantId,
+                    planId: resultInput.planId,
+                    planName: selectedPlan.name,
+                    input: resultInput,
+                    metrics: churnScenarioMetrics(result, selectedPlan.baselineChurn90d),
+                  })}
+                />
+              )}
+
               {/* Assumptions */}
               <Card>
                 <button
@@ -566,6 +859,26 @@ export function ChurnSimulationPage() {
                       <span className="text-slate-400 mr-2">•</span>
                       <span>90-day window</span>
                     </p>
+                    <p className="flex items-start">
+                      <span className="text-slate-400 mr-2">•</span>
+                      <span>Voluntary cancels pass through the cancel flow, then the pause offer, then the incentive; a subscriber saved by one lever is not counted again by the next</span>
+                    </p>
+                    <p className="flex items-start">
+                      <span className="text-slate-400 mr-2">•</span>
+                      <span>
+                        Each save is valued for the months its intervention's saved subscribers stayed within the first year (Kaplan–Meier,
+                        censored at the end of the data); recovered payments are valued for the full year
+                      </span>
+                    </p>
+                    {resultIncentiveTerms && (
+                      <p className="flex items-start">
+                        <span className="text-slate-400 mr-2">•</span>
+                        <span>
+                          Subscribers saved by the incentive get {formatPercent(resultIncentiveTerms.discountPct, 0)} off the plan price
+                          for {resultIncentiveTerms.months} month(s); this cost is deducted from recovered ARR
+                        </span>
+                      </p>
+                    )}
                     <p className="flex items-start">
                       <span className="text-slate-400 mr-2">•</span>
                       <span>No acquisition effects</span>
@@ -9,11 +9,14 @@ import {
   type SortingState,
   type ColumnFiltersState,
 } from '@tanstack/react-table';
-import { dataset } from '../data/sampleData';
+import { useDatasetRegistry } from '../data/datasetContext';
+import { CsvImportCard } from '../components/CsvImportCard';
+import { serializeDataset, safeParseDataset } from '../data/schema';
 import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
 import { Select } from '../components/ui/Select';
 import { formatCurrency, formatPercent, formatPercentChange, formatDate, formatNumber } from '../lib/utils';
-import type { Merchant, Plan, PriceChangeEvent, CancellationEvent, PaymentFailureEvent, PauseEvent } from '../data/types';
+import type { Dataset, Merchant, Plan, PriceChangeEvent, CancellationEvent, PaymentFailureEvent, PauseEvent } from '../data/types';
 
 type Scope = 'global' | 'merchant';
 
@@ -25,6 +28,7 @@ type Scope = 'global' | 'merchant';
   const pauseColumnHelper = createColumnHelper<PauseEvent>();
 
 export function DataPage() {
+  const { dataset, datasets, activeDatasetId, setActiveDatasetId, addDataset } = useDatasetRegistry();
   const [scope, setScope] = useState<Scope>('global');
   const [selectedMerchantId, setSelectedMerchantId] = useState<string>(dataset.merchants[0]?.id || '');
   const [merchantSorting, setMerchantSorting] = useState<SortingState>([]);
@@ -39,6 +43,41 @@ export function DataPage() {
   const [cancellationFilters, setCancellationFilters] = useState<ColumnFiltersState>([]);
   const [paymentFilters, setPaymentFilters] = useState<ColumnFiltersState>([]);
   const [pauseFilters, setPauseFilters] = useState<ColumnFiltersState>([]);
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+  const selectDataset = (id: string) => {
+    const next = datasets.find(d => d.id === id);
+    setActiveDatasetId(id);
+    setSelectedMerchantId(next?.dataset.merchants[0]?.id || '');
+  };
+
+  const handleImport = (name: string, imported: Dataset) => {
+    const id = `import_${Date.now()}`;
+    addDataset({ id, name, dataset: imported });
+    setActiveDatasetId(id);
+    setSelectedMerchantId(imported.merchants[0]?.id || '');
+  };
+
+  const handleExportJson = () => {
+    const active = datasets.find(d => d.id === activeDatasetId);
+    const blob = new Blob([serializeDataset(dataset)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(active?.name || 'dataset').replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadJson = async (file: File) => {
+    const result = safeParseDataset(await file.text());
+    if (!result.success) {
+      setJsonErrors(result.errors);
+      return;
+    }
+    setJsonErrors([]);
+    handleImport(file.name.replace(/\.json$/i, ''), result.dataset);
+  };
 
   // Filter data based on scope
   const filteredMerchants = useMemo(() => {
@@ -46,42 +85,42 @@ export function DataPage() {
       return dataset.merchants.filter(m => m.id === selectedMerchantId);
     }
     return dataset.merchants;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   const filteredPlans = useMemo(() => {
     if (scope === 'merchant') {
       return dataset.plans.filter(p => p.merchantId === selectedMerchantId);
     }
     return dataset.plans;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   const filteredEvents = useMemo(() => {
     if (scope === 'merchant') {
       return dataset.events.filter(e => e.merchantId === selectedMerchantId);
     }
     return dataset.events;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   const filteredCancellationEvents = useMemo(() => {
     if (scope === 'merchant') {
       return dataset.cancellationEvents.filter(e => e.merchantId === selectedMerchantId);
     }
     return dataset.cancellationEvents;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   const filteredPaymentEvents = useMemo(() => {
     if (scope === 'merchant') {
       return dataset.paymentFailureEvents.filter(e => e.merchantId === selectedMerchantId);
     }
     return dataset.paymentFailureEvents;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   const filteredPauseEvents = useMemo(() => {
     if (scope === 'merchant') {
       return dataset.pauseEvents.filter(e => e.merchantId === selectedMerchantId);
     }
     return dataset.pauseEvents;
-  }, [scope, selectedMerchantId]);
+  }, [dataset, scope, selectedMerchantId]);
 
   // Merchant columns
   const merchantColumns = useMemo(
@@ -141,7 +180,7 @@ export function DataPage() {
         cell: info => formatCurrency(info.getValue()),
       }),
     ],
-    []
+    [dataset]
   );
 
   // Event columns
@@ -194,7 +233,7 @@ export function DataPage() {
         cell: info => info.getValue() || '-',
       }),
     ],
-    []
+    [dataset]
   );
 
   // Cancellation event columns
@@ -242,7 +281,7 @@ export function DataPage() {
         },
       }),
     ],
-    []
+    [dataset]
   );
 
   // Payment failure event columns
@@ -294,7 +333,7 @@ export function DataPage() {
         },
       }),
     ],
-    []
+    [dataset]
   );
 
   // Pause event columns
@@ -339,7 +378,7 @@ export function DataPage() {
         cell: info => info.getValue() === undefined ? '-' : (info.getValue() ? 'Yes' : 'No'),
       }),
     ],
-    []
+    [dataset]
   );
 
   const merchantTable = useReactTable({
@@ -429,7 +468,7 @@ export function DataPage() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-slate-900 mb-2 tracking-tight">Sample Data</h1>
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 tracking-tight">Data</h1>
         <p className="text-slate-600 text-lg">
           View merchants, plans, and historical price change events
         </p>
@@ -438,6 +477,21 @@ export function DataPage() {
       {/* Filters */}
       <Card className="mb-6">
         <div className="flex flex-col sm:flex-row gap-5">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+              Dataset
+            </label>
+            <Select
+              value={activeDatasetId}
+              onChange={(e) => selectDataset(e.target.value)}
+            >
+              {datasets.map(d => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </Select>
+          </div>
           <div className="flex-1">
             <label className="block text-sm font-semibold text-slate-700 mb-2.5">
               Scope
@@ -473,8 +527,41 @@ export function DataPage() {
             </div>
           )}
         </div>
+        <div className="flex flex-wrap items-center gap-3 mt-5 pt-5 border-t border-slate-200">
+          <Button variant="outline" onClick={handleExportJson}>
+            Export JSON
+          </Button>
+          <label className="px-5 py-2.5 rounded-lg font-medium text-sm border border-slate-300 text-slate-700 bg-white hover:bg-slate-50 hover:border-slate-400 transition-all duration-200 cursor-pointer">
+            Load JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleLoadJson(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {jsonErrors.length > 0 && (
+          <div className="mt-4 bg-red-50 border border-red-200/60 rounded-lg p-4">
+            <p className="text-sm font-semibold text-red-800 mb-2">Could not load dataset file</p>
+            <ul className="space-y-1 text-xs text-red-700 font-mono">
+              {jsonErrors.slice(0, 10).map((error, idx) => (
+                <li key={idx}>{error}</li>
+              ))}
+            </ul>
+            {jsonErrors.length > 10 && (
+              <p className="text-xs text-red-600 mt-2">...and {jsonErrors.length - 10} more</p>
+            )}
+          </div>
+        )}
       </Card>
 
+      <CsvImportCard onImport={handleImport} />
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-5 mb-6">
         <Card>
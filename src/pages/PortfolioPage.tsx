@@ -0,0 +1,381 @@
+import { useState, useMemo } from 'react';
+import { Sankey, Tooltip, ResponsiveContainer } from 'recharts';
+import { getDefaultMerchantId } from '../data/sampleData';
+import { useDataset } from '../data/datasetContext';
+import { simulatePortfolio, defaultMigrations, type PortfolioSimulationResult, type PlanMigration } from '../lib/portfolio';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Select } from '../components/ui/Select';
+import { Badge } from '../components/ui/Badge';
+import { formatCurrency, formatNumber, formatPercentChange } from '../lib/utils';
+
+// Node renderer for the flow chart: a bar with its label beside it
+interface FlowNodeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: { name: string; depth?: number };
+}
+
+// Labels sit outside the chart: left of "now" nodes, right of "after" nodes
+const FlowNode = ({ x = 0, y = 0, width = 0, height = 0, payload }: FlowNodeProps) => {
+  const isLeftSide = (payload?.depth ?? 0) === 0;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={payload?.name === "Canceled" ? "#ef4444" : "#3b82f6"} fillOpacity={0.9} />
+      <text
+        x={isLeftSide ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isLeftSide ? "end" : "start"}
+        dominantBaseline="middle"
+        fontSize={12}
+        fill="#334155"
+      >
+        {payload?.name}
+      </text>
+    </g>
+  );
+};
+
+const migrationKey = (fromPlanId: string, toPlanId: string) => `${fromPlanId}->${toPlanId}`;
+
+export function PortfolioPage() {
+  const dataset = useDataset();
+  const [merchantId, setMerchantId] = useState<string>(() => getDefaultMerchantId(dataset));
+  const [useGlobalBenchmarks, setUseGlobalBenchmarks] = useState<boolean>(false);
+  const [newPrices, setNewPrices] = useState<Record<string, string>>({});
+  const [migrationOverrides, setMigrationOverrides] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<PortfolioSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const availablePlans = useMemo(() => {
+    return dataset.plans.filter(p => p.merchantId === merchantId);
+  }, [dataset, merchantId]);
+
+  // Default downgrade and upgrade shares (percent) for every plan, overridable per cell
+  const defaultShares = useMemo(() => {
+    const shares: Record<string, number> = {};
+    for (const m of defaultMigrations(dataset, merchantId, availablePlans.map(p => p.id))) {
+      shares[migrationKey(m.fromPlanId, m.toPlanId)] = m.share * 100;
+    }
+    return shares;
+  }, [dataset, merchantId, availablePlans]);
+
+  const shareValue = (fromPlanId: string, toPlanId: string): string => {
+    const key = migrationKey(fromPlanId, toPlanId);
+    return migrationOverrides[key] ?? (defaultShares[key] !== undefined ? String(defaultShares[key]) : "");
+  };
+
+  const resetResult = () => {
+    setResult(null);
+    setError(null);
+  };
+
+  const runSimulation = () => {
+    const priceChanges = availablePlans
+      .map(plan => ({ planId: plan.id, newPriceMonthly: parseFloat(newPrices[plan.id] ?? "") }))
+      .filter(change => !isNaN(change.newPriceMonthly) && change.newPriceMonthly > 0);
+
+    const migrations: PlanMigration[] = [];
+    for (const from of availablePlans) {
+      for (const to of availablePlans) {
+        if (from.id === to.id) continue;
+        const share = parseFloat(shareValue(from.id, to.id));
+        if (!isNaN(share) && share > 0) {
+          migrations.push({ fromPlanId: from.id, toPlanId: to.id, share: share / 100 });
+        }
+      }
+    }
+
+    try {
+      setResult(simulatePortfolio(dataset, { merchantId, priceChanges, migrations, useGlobalBenchmarks }));
+      setError(null);
+    } catch (err) {
+      console.error("Portfolio simulation error:", err);
+      setResult(null);
+      setError((err as Error).message);
+    }
+  };
+
+  // Sankey nodes: every plan today on the left, every plan after the change plus "Canceled" on the right
+  const flowData = useMemo(() => {
+    if (!result) return null;
+    const planCount = result.plans.length;
+    const nodes = [
+      ...result.plans.map(p => ({ name: `${p.planName} (now)` })),
+      ...result.plans.map(p => ({ name: `${p.planName} (after)` })),
+      { name: "Canceled" },
+    ];
+    const indexOf = (planId: string) => result.plans.findIndex(p => p.planId === planId);
+
+    const links: Array<{ source: number; target: number; value: number }> = [];
+    result.plans.forEach((p, i) => {
+      if (p.retainedSubs > 0) links.push({ source: i, target: planCount + i, value: Math.round(p.retainedSubs) });
+    });
+    for (const flow of result.flows) {
+      const value = Math.round(flow.subs);
+      if (value <= 0) continue;
+      const target = flow.to === "canceled" ? 2 * planCount : planCount + indexOf(flow.to);
+      links.push({ source: indexOf(flow.fromPlanId), target, value });
+    }
+    return { nodes, links };
+  }, [result]);
+
+  const changedCount = availablePlans.filter(p => {
+    const price = parseFloat(newPrices[p.id] ?? "");
+    return !isNaN(price) && price > 0;
+  }).length;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 tracking-tight">Portfolio Simulation</h1>
+        <p className="text-slate-600 text-lg">
+          Change prices on several plans at once and see where subscribers go
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card title="Simulation Parameters">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-6">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                Merchant
+              </label>
+              <Select
+                value={merchantId}
+                onChange={(e) => {
+                  setMerchantId(e.target.value);
+                  setNewPrices({});
+                  setMigrationOverrides({});
+                  resetResult();
+                }}
+              >
+                {dataset.merchants.map(merchant => (
+                  <option key={merchant.id} value={merchant.id}>
+                    {merchant.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center space-x-3 cursor-pointer pb-2.5">
+                <input
+                  type="checkbox"
+                  checked={useGlobalBenchmarks}
+                  onChange={(e) => {
+                    setUseGlobalBenchmarks(e.target.checked);
+                    resetResult();
+                  }}
+                  className="w-4 h-4 text-primary-600 border-slate-300 rounded focus:ring-primary-500 focus:ring-2"
+                />
+                <span className="text-sm font-semibold text-slate-700">
+                  Use Global Benchmarks
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <h4 className="font-semibold text-slate-900 mb-3 text-base">New Prices</h4>
+          <div className="overflow-x-auto -mx-6 px-6 mb-6">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Plan</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Interval</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Subscribers</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Current Price</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">New Price</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {availablePlans.map(plan => (
+                  <tr key={plan.id}>
+                    <td className="px-4 py-3 text-sm text-slate-900 font-medium">{plan.name}</td>
+                    <td className="px-4 py-3 text-sm text-slate-900">{plan.interval}</td>
+                    <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(plan.activeSubs)}</td>
+                    <td className="px-4 py-3 text-sm text-slate-900">{formatCurrency(plan.currentPriceMonthly)}/mo</td>
+                    <td className="px-4 py-3 text-sm">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={newPrices[plan.id] ?? ""}
+                        onChange={(e) => {
+                          setNewPrices(prev => ({ ...prev, [plan.id]: e.target.value }));
+                          resetResult();
+                        }}
+                        className="w-32 px-3 py-1.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 placeholder:text-slate-400"
+                        placeholder="Unchanged"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h4 className="font-semibold text-slate-900 mb-1 text-base">Migration Matrix</h4>
+          <p className="text-xs text-slate-500 mb-3">
+            Share (%) of the subscribers a plan loses when another plan becomes relatively cheaper who switch to that
+            plan, instead of canceling or staying. Defaults downgrade to the next cheaper plan and upgrade to the next
+            pricier plan with the same billing interval.
+          </p>
+          <div className="overflow-x-auto -mx-6 px-6 mb-6">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">From \ To</th>
+                  {availablePlans.map(plan => (
+                    <th key={plan.id} className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">{plan.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {availablePlans.map(from => (
+                  <tr key={from.id}>
+                    <td className="px-4 py-3 text-sm text-slate-900 font-medium">{from.name}</td>
+                    {availablePlans.map(to => (
+                      <td key={to.id} className="px-4 py-3 text-sm">
+                        {from.id === to.id ? (
+                          <span className="text-slate-400">-</span>
+                        ) : (
+                          <input
+                            type="number"
+                            step="5"
+                            min="0"
+                            max="100"
+                            value={shareValue(from.id, to.id)}
+                            onChange={(e) => {
+                              setMigrationOverrides(prev => ({ ...prev, [migrationKey(from.id, to.id)]: e.target.value }));
+                              resetResult();
+                            }}
+                            className="w-20 px-2 py-1.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 placeholder:text-slate-400"
+                            placeholder="0"
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <Button onClick={runSimulation} disabled={changedCount === 0}>
+            Run Portfolio Simulation
+          </Button>
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </Card>
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <div className="text-center">
+                  <div className="text-sm text-slate-600 mb-2 font-semibold uppercase tracking-wide">Merchant Net ARR Impact</div>
+                  <div className={`text-3xl font-bold tracking-tight ${result.netARRDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>
+                    {formatCurrency(result.netARRDelta)}
+                  </div>
+                  <div className="text-sm text-slate-600 mt-2">
+                    {formatPercentChange(result.netARRDelta / result.baselineARR)} of {formatCurrency(result.baselineARR)}
+                  </div>
+                </div>
+              </Card>
+              <Card>
+                <div className="text-center">
+                  <div className="text-sm text-slate-600 mb-2 font-semibold uppercase tracking-wide">Without Migration</div>
+                  <div className={`text-3xl font-bold tracking-tight ${result.standaloneARRDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>
+                    {formatCurrency(result.standaloneARRDelta)}
+                  </div>
+                  <div className="text-sm text-slate-600 mt-2">Sum of plans simulated in isolation</div>
+                </div>
+              </Card>
+              <Card>
+                <div className="text-center">
+                  <div className="text-sm text-slate-600 mb-2 font-semibold uppercase tracking-wide">Switched Plan</div>
+                  <div className="text-3xl font-bold tracking-tight text-slate-900">
+                    {formatNumber(Math.round(result.plans.reduce((sum, p) => sum + p.migratedInSubs, 0)))}
+                  </div>
+                  <div className="text-sm text-slate-600 mt-2">
+                    subscribers moved to a relatively cheaper plan
+                  </div>
+                </div>
+              </Card>
+            </div>
+
+            {flowData && flowData.links.length > 0 && (
+              <Card title="Subscriber Flow">
+                <ResponsiveContainer width="100%" height={Math.max(300, result.plans.length * 90)}>
+                  <Sankey
+                    data={flowData}
+                    nodePadding={30}
+                    nodeWidth={12}
+                    margin={{ top: 10, right: 140, bottom: 10, left: 140 }}
+                    node={<FlowNode />}
+                    link={{ stroke: '#93c5fd', strokeOpacity: 0.5 }}
+                  >
+                    <Tooltip
+                      formatter={(value: number | undefined) => value !== undefined ? `${formatNumber(value)} subscribers` : ''}
+                      contentStyle={{
+                        backgroundColor: 'white',
+                        border: '1px solid #e2e8f0',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 16px 0 rgba(0, 0, 0, 0.08)'
+                      }}
+                    />
+                  </Sankey>
+                </ResponsiveContainer>
+              </Card>
+            )}
+
+            <Card title="Plan Breakdown">
+              <div className="overflow-x-auto -mx-6 px-6">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Plan</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Price</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Churn Lift</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Lost</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Migrated Out</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Migrated In</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Standalone ARR</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Net ARR</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {result.plans.map(p => (
+                      <tr key={p.planId} className="hover:bg-slate-50/50 transition-colors">
+                        <td className="px-4 py-3 text-sm text-slate-900 font-medium">
+                          {p.planName}
+                          {p.simulation?.usedHeuristic && <span className="ml-2"><Badge variant="warning">Heuristic</Badge></span>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-900">
+                          {p.simulation
+                            ? `${formatCurrency(p.oldPriceMonthly)} → ${formatCurrency(p.newPriceMonthly)}`
+                            : formatCurrency(p.oldPriceMonthly)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{p.simulation ? formatPercentChange(p.simulation.churnLift) : '-'}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(Math.round(p.lostSubs))}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(Math.round(p.migratedOutSubs))}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(Math.round(p.migratedInSubs))}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatCurrency(p.standaloneARRDelta)}</td>
+                        <td className={`px-4 py-3 text-sm font-semibold ${p.netARRDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>{formatCurrency(p.netARRDelta)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { deleteScenario, useSavedScenarios } from '../data/scenarioStore';
+import { SCENARIO_KIND_LABELS, MIN_COMPARED_SCENARIOS, MAX_COMPARED_SCENARIOS, scenarioDeltas, type Confidence, type SavedScenario } from '../lib/scenarios';
+import { Card } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { formatCurrency, formatPercent, formatNumber, formatDate } from '../lib/utils';
+
+const confidenceVariant = (confidence: Confidence) =>
+  confidence === "High" ? "success" : confidence === "Med" ? "warning" : "danger";
+
+const signed = (value: number, text: string) => (value > 0 ? `+${text}` : text);
+
+const formatCurrencyDelta = (value: number) => signed(value, formatCurrency(value));
+
+// Churn deltas are differences of rates, so show them in percentage points
+const formatPpDelta = (value: number) => signed(value, `${(value * 100).toFixed(1)}pp`);
+
+// Lower churn is better; more revenue, confidence and evidence are better
+const deltaClass = (value: number, higherIsBetter = true) =>
+  value === 0 ? "text-slate-500" : (value > 0) === higherIsBetter ? "text-emerald-700" : "text-red-700";
+
+function describeInput(scenario: SavedScenario): string {
+  if (scenario.kind === "price") {
+    return `New price ${formatCurrency(scenario.input.newPriceMonthly)}/mo${scenario.input.useGlobalBenchmarks ? ", global benchmarks" : ""}`;
+  }
+  const { leverA, leverB, leverC } = scenario.input;
+  const intervention = leverA.type === "incentive" ? `incentive (${leverA.incentiveStrength ?? "none"})` : leverA.type;
+  const pause = leverC.pauseEnabled ? `pause up to ${leverC.maxPauseCycles} cycles` : "no pause";
+  return `${intervention}, ${leverB.retries} retries over ${leverB.retryWindowDays}d${leverB.fallbackEnabled ? " + fallback" : ""}, ${pause}`;
+}
+
+export function ScenariosPage() {
+  const scenarios = useSavedScenarios();
+  // Selection order matters: the first selected scenario is the reference for deltas
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const compared = selectedIds
+    .map(id => scenarios.find(s => s.id === id))
+    .filter((s): s is SavedScenario => s !== undefined);
+  const reference = compared[0];
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => {
+      if (ids.includes(id)) return ids.filter(existing => existing !== id);
+      if (ids.length >= MAX_COMPARED_SCENARIOS) return ids;
+      return [...ids, id];
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    deleteScenario(id);
+    setSelectedIds(ids => ids.filter(existing => existing !== id));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 tracking-tight">Saved Scenarios</h1>
+        <p className="text-slate-600 text-lg">
+          Compare {MIN_COMPARED_SCENARIOS}–{MAX_COMPARED_SCENARIOS} saved price and churn scenarios side by side
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card title="Scenarios">
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No saved scenarios yet. Run a <Link to="/simulate" className="text-primary-700 font-medium hover:underline">price simulation</Link> or
+              a <Link to="/churn" className="text-primary-700 font-medium hover:underline">churn simulation</Link> and save the result.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Compare</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Name</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Plan</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Dataset</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Saved</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">ARR Δ</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Confidence</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {scenarios.map(scenario => {
+                    const isSelected = selectedIds.includes(scenario.id);
+                    return (
+                      <tr key={scenario.id} className={isSelected ? "bg-primary-50/50" : undefined}>
+                        <td className="px-4 py-3 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            disabled={!isSelected && selectedIds.length >= MAX_COMPARED_SCENARIOS}
+                            onChange={() => toggleSelected(scenario.id)}
+                            className="w-4 h-4 text-primary-600 border-slate-300 rounded focus:ring-2 focus:ring-primary-500/20"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-900 font-medium">{scenario.name}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{SCENARIO_KIND_LABELS[scenario.kind]}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{scenario.planName}</td>
+                        <td className="px-4 py-3 text-sm text-slate-600">{scenario.datasetName}</td>
+                        <td className="px-4 py-3 text-sm text-slate-600">{formatDate(new Date(scenario.savedAt))}</td>
+                        <td className={`px-4 py-3 text-sm font-medium ${deltaClass(scenario.metrics.arrDelta)}`}>
+                          {formatCurrencyDelta(scenario.metrics.arrDelta)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <Badge variant={confidenceVariant(scenario.metrics.confidence)}>{scenario.metrics.confidence}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <button
+                            onClick={() => handleDelete(scenario.id)}
+                            className="text-slate-500 hover:text-red-700 text-sm font-medium"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {scenarios.length > 0 && compared.length < MIN_COMPARED_SCENARIOS && (
+            <p className="mt-4 text-xs text-slate-500">
+              Select at least {MIN_COMPARED_SCENARIOS} scenarios to compare them.
+            </p>
+          )}
+        </Card>
+
+        {reference && compared.length >= MIN_COMPARED_SCENARIOS && (
+          <Card title="Comparison">
+            <p className="text-xs text-slate-500 mb-4">
+              Deltas are relative to "{reference.name}", the first scenario selected.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Metric</th>
+                    {compared.map(scenario => (
+                      <th key={scenario.id} className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">
+                        {scenario.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">Scenario</td>
+                    {compared.map(scenario => (
+                      <td key={scenario.id} className="px-4 py-3 text-xs text-slate-600 align-top">
+                        <div className="font-medium text-slate-900">{SCENARIO_KIND_LABELS[scenario.kind]} · {scenario.planName}</div>
+                        <div>{describeInput(scenario)}</div>
+                        <div>{scenario.datasetName}</div>
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">Expected 90-day churn</td>
+                    {compared.map(scenario => {
+                      const delta = scenarioDeltas(reference.metrics, scenario.metrics).expectedChurn90d;
+                      return (
+                        <td key={scenario.id} className="px-4 py-3 text-sm text-slate-900">
+                          {formatPercent(scenario.metrics.expectedChurn90d)}
+                          <span className="text-xs text-slate-500"> (baseline {formatPercent(scenario.metrics.baselineChurn90d)})</span>
+                          {scenario !== reference && (
+                            <div className={`text-xs font-medium ${deltaClass(delta, false)}`}>{formatPpDelta(delta)}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">MRR impact</td>
+                    {compared.map(scenario => {
+                      const delta = scenarioDeltas(reference.metrics, scenario.metrics).mrrDelta;
+                      return (
+                        <td key={scenario.id} className="px-4 py-3 text-sm text-slate-900">
+                          {formatCurrencyDelta(scenario.metrics.mrrDelta)}
+                          {scenario !== reference && (
+                            <div className={`text-xs font-medium ${deltaClass(delta)}`}>{formatCurrencyDelta(delta)}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">ARR impact</td>
+                    {compared.map(scenario => {
+                      const delta = scenarioDeltas(reference.metrics, scenario.metrics).arrDelta;
+                      return (
+                        <td key={scenario.id} className="px-4 py-3 text-sm text-slate-900">
+                          {formatCurrencyDelta(scenario.metrics.arrDelta)}
+                          <span className="text-xs text-slate-500"> ({formatCurrency(scenario.metrics.arrRangeLow)} to {formatCurrency(scenario.metrics.arrRangeHigh)})</span>
+                          {scenario !== reference && (
+                            <div className={`text-xs font-medium ${deltaClass(delta)}`}>{formatCurrencyDelta(delta)}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">Confidence</td>
+                    {compared.map(scenario => {
+                      const delta = scenarioDeltas(reference.metrics, scenario.metrics).confidenceSteps;
+                      return (
+                        <td key={scenario.id} className="px-4 py-3 text-sm">
+                          <Badge variant={confidenceVariant(scenario.metrics.confidence)}>{scenario.metrics.confidence}</Badge>
+                          {scenario !== reference && (
+                            <div className={`mt-1 text-xs font-medium ${deltaClass(delta)}`}>
+                              {delta === 0 ? "Same" : delta > 0 ? `${delta} level${delta > 1 ? "s" : ""} higher` : `${-delta} level${delta < -1 ? "s" : ""} lower`}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-slate-700 font-medium">Evidence (comparable events)</td>
+                    {compared.map(scenario => {
+                      const delta = scenarioDeltas(reference.metrics, scenario.metrics).evidenceCount;
+                      return (
+                        <td key={scenario.id} className="px-4 py-3 text-sm text-slate-900">
+                          {formatNumber(scenario.metrics.evidenceCount)}
+                          {scenario !== reference && (
+                            <div className={`text-xs font-medium ${deltaClass(delta)}`}>{signed(delta, formatNumber(delta))}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,24 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ComposedChart, Cell, LineChart, Line, ReferenceLine } from 'recharts';
-import { dataset, TEST_MERCHANT_ID } from '../data/sampleData';
-import { simulate, type SimulationResult, findOptimalPrice, type PriceOptimizationResult } from '../lib/simulate';
+import { getDefaultMerchantId } from '../data/sampleData';
+import { useDatasetRegistry } from '../data/datasetContext';
+import { saveScenario } from '../data/scenarioStore';
+import { type SimulationInput, type SimulationResult, type PriceOptimizationResult, type PriceEstimator, PRICE_ESTIMATOR_LABELS } from '../lib/simulate';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Select } from '../components/ui/Select';
 import { Badge } from '../components/ui/Badge';
 import { Modal } from '../components/ui/Modal';
-import { formatCurrency, formatPercent, formatPercentChange, formatDate } from '../lib/utils';
+import { ConstrainedOptimizerCard } from '../components/ConstrainedOptimizerCard';
+import { SaveScenarioForm } from '../components/SaveScenarioForm';
+import { useSimulationWorker } from '../workers/useSimulationWorker';
+import { isJobCancelled } from '../workers/simulationClient';
+import { DEFAULT_PROJECTION_MONTHS, type RenewalDistribution } from '../lib/projection';
+import { priceScenarioMetrics } from '../lib/scenarios';
+import { decodeSimulationParams, encodeSimulationParams } from '../lib/urlState';
+import { ROLLOUT_MODE_LABELS, DEFAULT_GRANDFATHERED_SHARE, DEFAULT_PHASE_MONTHS, type RolloutMode, type RolloutOptions } from '../lib/rollout';
+import { formatCurrency, formatCurrencyWithCents, formatPercent, formatPercentChange, formatDate, formatNumber } from '../lib/utils';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 
 // Custom Tooltip component for the optimization chart
@@ -58,12 +69,56 @@ const OptimizationTooltip = ({ active, payload, label }: OptimizationTooltipProp
 const EXTREME_INCREASE_PCT = 0.50;   // +50% or more
 const EXTREME_DECREASE_PCT = -0.30;   // -30% or more decrease
 
+// Default recency half-life for comparable events; blank or 0 disables decay
+const DEFAULT_HALF_LIFE_DAYS = 365;
+// Default annual discount rate (percent) for LTV
+const DEFAULT_DISCOUNT_RATE_PCT = 10;
+
+// Form fields hold percentages; inputs and links hold fractions
+const toPercentInput = (fraction: number) => String(Number((fraction * 100).toFixed(4)));
+
+// Lifetime value is unbounded (null) when the plan has no churn and nothing is discounted
+const formatLtv = (value: number | null) => (value === null ? "n/a" : formatCurrency(value));
+
+// A blank or non-positive half-life means no recency decay
+const parseHalfLife = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+const rolloutFromInputs = (mode: RolloutMode, grandfatheredPct: string, phaseMonths: string): RolloutOptions => ({
+  mode,
+  grandfatheredShare: (parseFloat(grandfatheredPct) || 0) / 100,
+  phaseMonths: parseInt(phaseMonths) || DEFAULT_PHASE_MONTHS,
+});
+
 export function SimulatePage() {
-  const [merchantId, setMerchantId] = useState<string>(TEST_MERCHANT_ID);
-  const [planId, setPlanId] = useState<string>("");
-  const [newPrice, setNewPrice] = useState<string>("");
-  const [useGlobalBenchmarks, setUseGlobalBenchmarks] = useState<boolean>(false);
+  const { dataset, datasets, activeDatasetId } = useDatasetRegistry();
+  const datasetName = datasets.find(d => d.id === activeDatasetId)?.name ?? activeDatasetId;
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A shared link seeds the form once, on first render; later runs write their inputs back to the URL
+  const [linked] = useState(() => decodeSimulationParams(searchParams, dataset));
+  const linkedInput = linked?.status === "valid" ? linked.input : undefined;
+  const [linkError, setLinkError] = useState<string | null>(linked?.status === "invalid" ? linked.message : null);
+  const [merchantId, setMerchantId] = useState<string>(() => linkedInput?.merchantId ?? getDefaultMerchantId(dataset));
+  const [planId, setPlanId] = useState<string>(linkedInput?.planId ?? "");
+  const [newPrice, setNewPrice] = useState<string>(linkedInput ? String(linkedInput.newPriceMonthly) : "");
+  const [useGlobalBenchmarks, setUseGlobalBenchmarks] = useState<boolean>(linkedInput?.useGlobalBenchmarks ?? false);
+  const [estimator, setEstimator] = useState<PriceEstimator>(linkedInput?.estimator ?? "nearestNeighbor");
+  const [halfLifeDays, setHalfLifeDays] = useState<string>(
+    linkedInput ? String(linkedInput.recencyHalfLifeDays ?? "") : String(DEFAULT_HALF_LIFE_DAYS)
+  );
+  const [discountRatePct, setDiscountRatePct] = useState<string>(
+    linkedInput ? toPercentInput(linkedInput.annualDiscountRate ?? 0) : String(DEFAULT_DISCOUNT_RATE_PCT)
+  );
+  const [rolloutMode, setRolloutMode] = useState<RolloutMode>(linkedInput?.rollout?.mode ?? "all");
+  const [grandfatheredPct, setGrandfatheredPct] = useState<string>(
+    toPercentInput(linkedInput?.rollout?.grandfatheredShare ?? DEFAULT_GRANDFATHERED_SHARE)
+  );
+  const [phaseMonths, setPhaseMonths] = useState<string>(String(linkedInput?.rollout?.phaseMonths ?? DEFAULT_PHASE_MONTHS));
+  const [renewalDistribution, setRenewalDistribution] = useState<RenewalDistribution>(linkedInput?.renewalDistribution ?? "even");
   const [result, setResult] = useState<SimulationResult | null>(null);
+  const [alternateResult, setAlternateResult] = useState<SimulationResult | null>(null);
   const [showAssumptions, setShowAssumptions] = useState(false);
   const [showExtremeWarning, setShowExtremeWarning] = useState(false);
   const [pendingRun, setPendingRun] = useState<null | { pctChange: number; direction: "increase" | "decrease" }>(null);
@@ -71,11 +126,20 @@ export function SimulatePage() {
   const [acknowledgedExtreme, setAcknowledgedExtreme] = useState(false);
   const [priceOptimization, setPriceOptimization] = useState<PriceOptimizationResult | null>(null);
   const [isCalculatingOptimal, setIsCalculatingOptimal] = useState(false);
+  const [optimizationProgress, setOptimizationProgress] = useState(0);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const simulationWorker = useSimulationWorker();
+  const latestRunRef = useRef(0);
+
+  // Changing merchant, plan or dataset invalidates any run still in the worker
+  useEffect(() => {
+    simulationWorker.cancel();
+  }, [simulationWorker, merchantId, planId, dataset]);
 
   // Get available plans for selected merchant (always merchant-scoped)
   const availablePlans = useMemo(() => {
     return dataset.plans.filter(p => p.merchantId === merchantId);
-  }, [merchantId]);
+  }, [dataset, merchantId]);
 
   // Track previous availablePlans to detect changes
   const prevAvailablePlansRef = useRef(availablePlans);
@@ -100,6 +164,9 @@ export function SimulatePage() {
 
   const selectedPlan = dataset.plans.find(p => p.id === planId);
 
+  // Fitted curve parameters come from whichever of the two runs used the curve estimator
+  const fittedCurve = result?.curveFit ?? alternateResult?.curveFit;
+
   // Transform optimization data to include churn impact, relative to current price baseline
   const chartDataWithChurnImpact = useMemo(() => {
     if (!priceOptimization || !selectedPlan) return [];
@@ -118,45 +185,83 @@ export function SimulatePage() {
     }));
   }, [priceOptimization, selectedPlan]);
 
-  const runSimulation = () => {
+  const runSimulation = async () => {
     if (!planId || !newPrice || !selectedPlan) return;
     
     const price = parseFloat(newPrice);
     if (isNaN(price) || price <= 0) return;
+    const recencyHalfLifeDays = parseHalfLife(halfLifeDays);
+    const parsedDiscountRate = parseFloat(discountRatePct);
+    const annualDiscountRate = parsedDiscountRate > 0 ? parsedDiscountRate / 100 : 0;
+    const rollout = rolloutFromInputs(rolloutMode, grandfatheredPct, phaseMonths);
 
+    const simulationInput: SimulationInput = {
+      merchantId,
+      planId,
+      newPriceMonthly: price,
+      useGlobalBenchmarks,
+      estimator,
+      recencyHalfLifeDays,
+      annualDiscountRate,
+      rollout,
+      renewalDistribution,
+    };
+
+    setSearchParams(encodeSimulationParams(simulationInput), { replace: true });
+    setLinkError(null);
+
+    // Drop any run still in flight before starting a new one; its handlers then leave state alone
+    simulationWorker.cancel();
+    const runId = ++latestRunRef.current;
+    const isLatestRun = () => runId === latestRunRef.current;
+    setIsSimulating(true);
     try {
-      const simResult = simulate({
-        merchantId,
-        planId,
-        newPriceMonthly: price,
-        useGlobalBenchmarks,
-      });
+      const [simResult, alternate] = await simulationWorker.run(dataset, "simulate", [
+        simulationInput,
+        // Run the other estimator on the same inputs so the two approaches can be compared
+        { ...simulationInput, estimator: estimator === "curveFit" ? "nearestNeighbor" : "curveFit" },
+      ]);
       setResult(simResult);
+      setAlternateResult(alternate);
       if (acknowledgedExtreme || pendingRun) {
         setAcknowledgedExtreme(true);
       }
+    } catch (error) {
+      if (!isJobCancelled(error)) {
+        console.error("Simulation error:", error);
+      }
+      return;
+    } finally {
+      if (isLatestRun()) setIsSimulating(false);
+    }
 
-      // Calculate price optimization after simulation runs
-      setIsCalculatingOptimal(true);
-      setTimeout(() => {
-        try {
-          const optimization = findOptimalPrice(
-            merchantId,
-            planId,
-            useGlobalBenchmarks,
-            [-0.5, 1.0], // Test prices from -50% to +100% of current (centered around current)
-            50 // 50 data points for smooth curve
-          );
-          setPriceOptimization(optimization);
-        } catch (error) {
-          console.error("Price optimization error:", error);
-          setPriceOptimization(null);
-        } finally {
-          setIsCalculatingOptimal(false);
-        }
-      }, 0);
+    // Calculate price optimization after simulation runs
+    setIsCalculatingOptimal(true);
+    setOptimizationProgress(0);
+    try {
+      const optimization = await simulationWorker.run(
+        dataset,
+        "findOptimalPrice",
+        {
+          merchantId,
+          planId,
+          useGlobalBenchmarks,
+          priceRange: [-0.5, 1.0], // Test prices from -50% to +100% of current (centered around current)
+          steps: 50, // 50 data points for smooth curve
+          estimator,
+          recencyHalfLifeDays,
+          rollout,
+        },
+        (completed, total) => setOptimizationProgress(completed / total)
+      );
+      setPriceOptimization(optimization);
     } catch (error) {
-      console.error("Simulation error:", error);
+      if (!isJobCancelled(error)) {
+        console.error("Price optimization error:", error);
+        setPriceOptimization(null);
+      }
+    } finally {
+      if (isLatestRun()) setIsCalculatingOptimal(false);
     }
   };
 
@@ -188,6 +293,14 @@ export function SimulatePage() {
     runSimulation();
   };
 
+  // Run a shared link's scenario once the form has been seeded from it; extreme changes still ask first
+  const autoRunPendingRef = useRef(linkedInput !== undefined);
+  useEffect(() => {
+    if (!autoRunPendingRef.current) return;
+    autoRunPendingRef.current = false;
+    queueMicrotask(handleSimulate);
+  });
+
   const handleRunAnyway = () => {
     setShowExtremeWarning(false);
     setAcknowledgedExtreme(true);
@@ -210,11 +323,14 @@ export function SimulatePage() {
     const retainedSubs = selectedPlan.activeSubs * (1 - result.expectedChurn90d);
     const incrementalChurnedSubs = selectedPlan.activeSubs * Math.max(result.expectedChurn90d - result.baselineChurn90d, 0);
     
+    // Only existing subscribers on the new price see the uplift and the extra churn
+    const exposedShare = result.rollout.existingExposedShare;
+
     // Price uplift: benefit from higher price on retained subs
-    const priceUplift = (newPriceVal - oldPrice) * retainedSubs * 12;
+    const priceUplift = (newPriceVal - oldPrice) * retainedSubs * 12 * exposedShare;
     
     // Churn loss: revenue lost from incremental churned subscribers
-    const churnLoss = -oldPrice * incrementalChurnedSubs * 12;
+    const churnLoss = -oldPrice * incrementalChurnedSubs * 12 * exposedShare;
     
     const netARR = result.netARRDelta;
     
@@ -222,6 +338,7 @@ export function SimulatePage() {
       { name: 'Baseline ARR', value: baselineARR, type: 'baseline' },
       { name: 'Price Uplift', value: priceUplift, type: 'uplift' },
       { name: 'Churn Loss', value: churnLoss, type: 'churn' },
+      { name: 'New Signups', value: result.rollout.newSubscriberARRDelta, type: result.rollout.newSubscriberARRDelta >= 0 ? 'uplift' : 'churn' },
       { name: 'Net ARR', value: netARR, type: 'net' },
     ];
   })() : [];
@@ -293,6 +410,14 @@ export function SimulatePage() {
         </p>
       </div>
 
+      {linkError && (
+        <Card className="mb-6 bg-amber-50 border-amber-200/60">
+          <p className="text-sm text-amber-800">
+            <span className="font-semibold">The shared link could not be opened:</span> {linkError}. Showing the default scenario instead.
+          </p>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left Panel - Inputs */}
         <div className="space-y-6">
@@ -366,6 +491,75 @@ export function SimulatePage() {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                  Churn Estimator
+                </label>
+                <Select
+                  value={estimator}
+                  onChange={(e) => {
+                    setEstimator(e.target.value as PriceEstimator);
+                    setResult(null);
+                    setPriceOptimization(null);
+                    setAcknowledgedExtreme(false);
+                  }}
+                >
+                  {(Object.keys(PRICE_ESTIMATOR_LABELS) as PriceEstimator[]).map(key => (
+                    <option key={key} value={key}>
+                      {PRICE_ESTIMATOR_LABELS[key]}
+                    </option>
+                  ))}
+                </Select>
+                <p className="text-xs text-slate-500 mt-1.5">
+                  {estimator === "curveFit"
+                    ? "Fits a piecewise linear churn curve to the merchant's price changes, weighted by similarity and recency, pooled toward the global fit"
+                    : "Weights each comparable price change by how similar it is to the proposed change"}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                  Recency Half-Life (days)
+                </label>
+                <input
+                  type="number"
+                  step="30"
+                  min="0"
+                  value={halfLifeDays}
+                  onChange={(e) => {
+                    setHalfLifeDays(e.target.value);
+                    setResult(null);
+                    setPriceOptimization(null);
+                    setAcknowledgedExtreme(false);
+                  }}
+                  className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 transition-all duration-200 hover:border-slate-400 placeholder:text-slate-400"
+                  placeholder="No decay"
+                />
+                <p className="text-xs text-slate-500 mt-1.5">
+                  Older price changes count less: an event this many days older than the newest one gets half the weight. Leave blank for no decay.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                  LTV Discount Rate (% / year)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={discountRatePct}
+                  onChange={(e) => {
+                    setDiscountRatePct(e.target.value);
+                    setResult(null);
+                    setPriceOptimization(null);
+                    setAcknowledgedExtreme(false);
+                  }}
+                  className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 transition-all duration-200 hover:border-slate-400 placeholder:text-slate-400"
+                  placeholder="No discounting"
+                />
+              </div>
+
               {selectedPlan && (
                 <div className="bg-gradient-to-br from-slate-50 to-slate-100/50 rounded-xl border border-slate-200/60 p-5">
                   <h4 className="font-semibold text-slate-900 mb-4 text-base">Plan Details</h4>
@@ -418,12 +612,93 @@ export function SimulatePage() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                  Rollout
+                </label>
+                <Select
+                  value={rolloutMode}
+                  onChange={(e) => {
+                    setRolloutMode(e.target.value as RolloutMode);
+                    setResult(null);
+                    setPriceOptimization(null);
+                  }}
+                >
+                  {(Object.keys(ROLLOUT_MODE_LABELS) as RolloutMode[]).map(mode => (
+                    <option key={mode} value={mode}>
+                      {ROLLOUT_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </Select>
+                {rolloutMode === "grandfather" && (
+                  <div className="mt-3">
+                    <label className="block text-xs font-semibold text-slate-600 mb-1.5">
+                      Grandfathered share of existing subscribers (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="5"
+                      min="0"
+                      max="100"
+                      value={grandfatheredPct}
+                      onChange={(e) => {
+                        setGrandfatheredPct(e.target.value);
+                        setResult(null);
+                        setPriceOptimization(null);
+                      }}
+                      className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 transition-all duration-200 hover:border-slate-400"
+                    />
+                  </div>
+                )}
+                {rolloutMode === "phased" && (
+                  <div className="mt-3">
+                    <label className="block text-xs font-semibold text-slate-600 mb-1.5">
+                      Rollout period (months)
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="1"
+                      max={DEFAULT_PROJECTION_MONTHS}
+                      value={phaseMonths}
+                      onChange={(e) => {
+                        setPhaseMonths(e.target.value);
+                        setResult(null);
+                        setPriceOptimization(null);
+                      }}
+                      className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500 transition-all duration-200 hover:border-slate-400"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {selectedPlan?.interval === "annual" && (
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                    Renewal Timing
+                  </label>
+                  <Select
+                    value={renewalDistribution}
+                    onChange={(e) => {
+                      setRenewalDistribution(e.target.value as RenewalDistribution);
+                      setResult(null);
+                    }}
+                  >
+                    <option value="even">Evenly spread over 12 months</option>
+                    <option value="createdAt">From plan creation date</option>
+                  </Select>
+                  <p className="text-xs text-slate-500 mt-1.5">
+                    Annual subscribers only see the new price, and can only churn, when they renew
+                  </p>
+                </div>
+              )}
+
               <Button
                 onClick={handleSimulate}
-                disabled={!planId || !newPrice || !selectedPlan}
+                disabled={!planId || !newPrice || !selectedPlan || isSimulating}
                 className="w-full"
               >
-                Run Simulation
+                {isSimulating ? "Running..." : "Run Simulation"}
               </Button>
             </div>
           </Card>
@@ -436,7 +711,10 @@ export function SimulatePage() {
             <Card title="Price Optimization">
               <div className="text-center py-8">
                 <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mb-2"></div>
-                <p className="text-slate-600 text-sm">Calculating optimal price...</p>
+                <p className="text-slate-600 text-sm">Calculating optimal price... {formatPercent(optimizationProgress, 0)}</p>
+                <div className="mt-3 mx-auto w-48 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary-600 transition-all" style={{ width: `${optimizationProgress * 100}%` }} />
+                </div>
               </div>
             </Card>
           )}
@@ -581,6 +859,20 @@ export function SimulatePage() {
             </Card>
           )}
 
+          {result && selectedPlan && (
+            <ConstrainedOptimizerCard
+              key={`${merchantId}-${planId}`}
+              dataset={dataset}
+              merchantId={merchantId}
+              planId={planId}
+              useGlobalBenchmarks={useGlobalBenchmarks}
+              estimator={estimator}
+              recencyHalfLifeDays={parseHalfLife(halfLifeDays)}
+              rollout={rolloutFromInputs(rolloutMode, grandfatheredPct, phaseMonths)}
+              renewalDistribution={renewalDistribution}
+            />
+          )}
+
           {!result ? (
             <Card>
               <div className="text-center py-16">
@@ -626,12 +918,72 @@ export function SimulatePage() {
                     {formatPercentChange(result.netARRDelta / (result.baselineMRR * 12))}
                   </div>
                   <div className={`text-xl font-semibold mb-4 ${result.netARRDelta >= 0 ? "text-emerald-600" : "text-red-600"}`}>
-                    {formatCurrency(result.netARRDelta)} / year
+                    {formatCurrency(result.netARRDelta)} / year run-rate
+                  </div>
+                  <div className="flex items-center justify-center gap-4 mb-2 text-xs text-slate-600">
+                    <span>
+                      <span className="font-semibold">Existing subscribers:</span> {formatCurrency(result.rollout.existingARRDelta)}
+                    </span>
+                    <span>
+                      <span className="font-semibold">New subscribers:</span> {formatCurrency(result.rollout.newSubscriberARRDelta)}
+                    </span>
+                  </div>
+                  <div className="text-sm text-slate-700 font-semibold mb-2">
+                    {result.annualRenewal ? "First-year realized (at renewal)" : "Projected first 12 months"}: {formatCurrency(result.projection.months[11].cumulativeRevenueDelta)}
                   </div>
                   <div className="text-sm text-slate-600 font-medium">
                     Range: {formatCurrency(result.rangeLow)} to {formatCurrency(result.rangeHigh)}
                   </div>
+                  {result.bootstrap && result.bootstrap.percentiles.length > 0 && (
+                    <div className="flex items-center justify-center gap-4 mt-3 text-xs text-slate-600">
+                      {result.bootstrap.percentiles.map(p => (
+                        <span key={p.percentile}>
+                          <span className="font-semibold">P{Math.round(p.percentile * 100)}:</span> {formatCurrency(p.netARRDelta)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {/* LTV Impact Card */}
+              <Card title="Customer Lifetime Value">
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="bg-slate-50 rounded-lg border border-slate-200/60 p-4 text-center">
+                    <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide mb-1">LTV Before</div>
+                    <div className="text-2xl font-bold text-slate-900">{formatLtv(result.ltv.ltvBefore)}</div>
+                  </div>
+                  <div className={`rounded-lg border p-4 text-center ${result.ltv.ltvDeltaPerSub === null ? "bg-slate-50 border-slate-200/60" : result.ltv.ltvDeltaPerSub >= 0 ? "bg-emerald-50 border-emerald-200/60" : "bg-red-50 border-red-200/60"}`}>
+                    <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide mb-1">LTV After</div>
+                    <div className={`text-2xl font-bold ${result.ltv.ltvDeltaPerSub === null ? "text-slate-900" : result.ltv.ltvDeltaPerSub >= 0 ? "text-emerald-700" : "text-red-700"}`}>{formatLtv(result.ltv.ltvAfter)}</div>
+                  </div>
+                </div>
+                <div className="space-y-3 text-sm">
+                  <div className="flex justify-between items-center py-1.5 border-b border-slate-200/60">
+                    <span className="text-slate-600 font-medium">LTV Change per Subscriber:</span>
+                    <span className={`font-semibold ${result.ltv.ltvDeltaPerSub === null ? "text-slate-900" : result.ltv.ltvDeltaPerSub >= 0 ? "text-emerald-700" : "text-red-700"}`}>{formatLtv(result.ltv.ltvDeltaPerSub)}</span>
+                  </div>
+                  <div className="flex justify-between items-center py-1.5 border-b border-slate-200/60">
+                    <span className="text-slate-600 font-medium">Portfolio LTV Change:</span>
+                    <span className={`font-semibold ${result.ltv.portfolioLtvDelta === null ? "text-slate-900" : result.ltv.portfolioLtvDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>{formatLtv(result.ltv.portfolioLtvDelta)}</span>
+                  </div>
+                  <div className="flex justify-between items-center py-1.5">
+                    <span className="text-slate-600 font-medium">Payback Period:</span>
+                    <span className="font-semibold text-slate-900">
+                      {result.ltv.paybackMonths === null
+                        ? "Not within 5 years"
+                        : result.ltv.paybackMonths === 0
+                        ? "Immediate"
+                        : `${result.ltv.paybackMonths} months`}
+                    </span>
+                  </div>
                 </div>
+                <p className="text-xs text-slate-500 mt-4">
+                  LTV per existing subscriber follows the rollout-adjusted projection over five years, then baseline churn
+                  {result.ltv.annualDiscountRate > 0 ? `, discounted at ${formatPercent(result.ltv.annualDiscountRate, 0)} per year` : ", undiscounted"}.
+                  Payback is the month the cumulative revenue delta stops being negative.
+                  {result.ltv.ltvDeltaPerSub === null && " LTV is n/a when churn is zero and nothing is discounted, since it has no upper bound."}
+                </p>
               </Card>
 
               {/* Waterfall Chart */}
@@ -683,6 +1035,62 @@ export function SimulatePage() {
                 </ResponsiveContainer>
               </Card>
 
+              {/* Cohort Revenue Projection */}
+              <Card title="Revenue Projection">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
+                  {result.projection.horizons.map(h => (
+                    <div key={h.days} className="bg-slate-50 rounded-lg border border-slate-200/60 p-3 text-center">
+                      <div className="text-xs text-slate-500 font-medium mb-1">{h.days} days</div>
+                      <div className={`font-semibold ${h.cumulativeRevenueDelta >= 0 ? "text-emerald-700" : "text-red-700"}`}>
+                        {formatCurrency(h.cumulativeRevenueDelta)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={result.projection.months}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis
+                      dataKey="month"
+                      tickFormatter={(value) => `M${value}`}
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      axisLine={{ stroke: '#cbd5e1' }}
+                    />
+                    <YAxis
+                      yAxisId="mrr"
+                      tickFormatter={(value) => formatCurrency(value)}
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      axisLine={{ stroke: '#cbd5e1' }}
+                    />
+                    <YAxis
+                      yAxisId="cumulative"
+                      orientation="right"
+                      tickFormatter={(value) => formatCurrency(value)}
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      axisLine={{ stroke: '#cbd5e1' }}
+                    />
+                    <Tooltip
+                      formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value) : ''}
+                      labelFormatter={(label) => `Month ${label}`}
+                      contentStyle={{
+                        backgroundColor: 'white',
+                        border: '1px solid #e2e8f0',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 16px 0 rgba(0, 0, 0, 0.08)'
+                      }}
+                    />
+                    <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                    <Line yAxisId="mrr" type="monotone" dataKey="baselineMRR" name="Baseline MRR" stroke="#64748b" strokeWidth={2} dot={false} />
+                    <Line yAxisId="mrr" type="monotone" dataKey="scenarioMRR" name="New Price MRR" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    <Line yAxisId="cumulative" type="monotone" dataKey="cumulativeRevenueDelta" name="Cumulative Revenue Delta" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-slate-500 mt-4">
+                  Month-by-month projection of the existing subscriber base. Subscribers: {formatNumber(Math.round(result.projection.months[result.projection.months.length - 1].baselineSubs))} baseline
+                  vs {formatNumber(Math.round(result.projection.months[result.projection.months.length - 1].scenarioSubs))} at the new price after {result.projection.months.length} months.
+                </p>
+              </Card>
+
               {/* Churn Comparison */}
               <Card title="Churn Impact Analysis">
                 <div className="mb-5 space-y-3">
@@ -739,6 +1147,22 @@ export function SimulatePage() {
                 <div className="mb-4 text-sm text-slate-600 font-medium">
                   Based on {result.evidenceCount} comparable historical price changes
                 </div>
+                {result.shrinkage && (
+                  <div className="mb-4 grid grid-cols-3 gap-3 text-sm">
+                    <div className="bg-slate-50 rounded-lg border border-slate-200/60 p-3">
+                      <div className="text-xs text-slate-500 font-medium mb-1">Merchant lift</div>
+                      <div className="font-semibold text-slate-900">{formatPercentChange(result.shrinkage.merchantLift, 2)}</div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg border border-slate-200/60 p-3">
+                      <div className="text-xs text-slate-500 font-medium mb-1">Global lift</div>
+                      <div className="font-semibold text-slate-900">{formatPercentChange(result.shrinkage.globalLift, 2)}</div>
+                    </div>
+                    <div className="bg-amber-50 rounded-lg border border-amber-200/60 p-3">
+                      <div className="text-xs text-amber-700 font-medium mb-1">Borrowed from other merchants</div>
+                      <div className="font-semibold text-amber-900">{formatPercent(result.shrinkage.factor, 0)}</div>
+                    </div>
+                  </div>
+                )}
                 <div className="overflow-x-auto -mx-6 px-6">
                   <table className="min-w-full divide-y divide-slate-200">
                     <thead className="bg-slate-50">
@@ -747,6 +1171,7 @@ export function SimulatePage() {
                         <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Change</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Control</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Treatment</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Recency</th>
                         {useGlobalBenchmarks && (
                           <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Source</th>
                         )}
@@ -759,6 +1184,7 @@ export function SimulatePage() {
                           <td className="px-4 py-3 text-sm text-slate-900 font-medium">{formatPercentChange(ce.event.pctChange)}</td>
                           <td className="px-4 py-3 text-sm text-slate-900">{formatPercent(ce.event.churn90dControl)}</td>
                           <td className="px-4 py-3 text-sm text-slate-900">{formatPercent(ce.event.churn90dTreatment)}</td>
+                          <td className="px-4 py-3 text-sm text-slate-900">{formatPercent(ce.recencyWeight, 0)}</td>
                           {useGlobalBenchmarks && (
                             <td className="px-4 py-3 text-sm">
                               <Badge variant={ce.isGlobal ? "warning" : "success"}>
@@ -773,6 +1199,95 @@ export function SimulatePage() {
                 </div>
               </Card>
 
+              {/* Estimator Comparison */}
+              {alternateResult && (
+                <Card title="Estimator Comparison">
+                  <div className="overflow-x-auto -mx-6 px-6">
+                    <table className="min-w-full divide-y divide-slate-200">
+                      <thead className="bg-slate-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Estimator</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Churn Lift</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Net ARR Delta</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Range</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-slate-200">
+                        {[result, alternateResult].map(r => (
+                          <tr key={r.estimator} className="hover:bg-slate-50/50 transition-colors">
+                            <td className="px-4 py-3 text-sm text-slate-900 font-medium">
+                              {PRICE_ESTIMATOR_LABELS[r.estimator]}
+                              {r === result && <span className="ml-2"><Badge variant="info">Selected</Badge></span>}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-slate-900">{formatPercentChange(r.churnLift)}</td>
+                            <td className="px-4 py-3 text-sm text-slate-900">{formatCurrency(r.netARRDelta)}</td>
+                            <td className="px-4 py-3 text-sm text-slate-900">{formatCurrency(r.rangeLow)} to {formatCurrency(r.rangeHigh)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {fittedCurve ? (
+                    <div className="mt-5 pt-5 border-t border-slate-200">
+                      <h4 className="font-semibold text-slate-900 mb-3 text-base">Fitted Curve</h4>
+                      <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">Lift per +10% price:</span>
+                          <span className="font-semibold text-slate-900">{formatPercentChange(fittedCurve.increaseSlope * 0.10, 2)}</span>
+                        </div>
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">Lift per -10% price:</span>
+                          <span className="font-semibold text-slate-900">{formatPercentChange(-fittedCurve.decreaseSlope * 0.10, 2)}</span>
+                        </div>
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">Merchant weight (increases):</span>
+                          <span className="font-semibold text-slate-900">{formatPercent(fittedCurve.merchantWeightIncrease, 0)} ({fittedCurve.merchant.increaseCount} events)</span>
+                        </div>
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">Merchant weight (decreases):</span>
+                          <span className="font-semibold text-slate-900">{formatPercent(fittedCurve.merchantWeightDecrease, 0)} ({fittedCurve.merchant.decreaseCount} events)</span>
+                        </div>
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">R²:</span>
+                          <span className="font-semibold text-slate-900">{fittedCurve.r2.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between py-1.5 border-b border-slate-200/60">
+                          <span className="text-slate-600 font-medium">RMSE:</span>
+                          <span className="font-semibold text-slate-900">{formatPercent(fittedCurve.rmse, 2)}</span>
+                        </div>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-3">
+                        {fittedCurve.global
+                          ? `Pooled toward the global fit (${fittedCurve.global.increaseCount + fittedCurve.global.decreaseCount} events, R² ${fittedCurve.global.r2.toFixed(2)}).`
+                          : "Pooled toward the heuristic prior; enable global benchmarks to pool toward the global fit."}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-slate-500 mt-4">
+                      Not enough comparable events to fit a curve; both estimators use the heuristic fallback.
+                    </p>
+                  )}
+                </Card>
+              )}
+
+              {selectedPlan && (
+                <SaveScenarioForm
+                  key={JSON.stringify(result.inputs)}
+                  defaultName={`${selectedPlan.name} at ${formatCurrencyWithCents(result.inputs.newPriceMonthly)}/mo`}
+                  onSave={(name) => saveScenario({
+                    kind: "price",
+                    name,
+                    datasetName,
+                    merchantId: result.inputs.merchantId,
+                    planId: result.inputs.planId,
+                    planName: selectedPlan.name,
+                    input: result.inputs,
+                    metrics: priceScenarioMetrics(result),
+                  })}
+                />
+              )}
+
               {/* Assumptions */}
               <Card>
                 <button
@@ -790,12 +1305,53 @@ export function SimulatePage() {
                     </p>
                     <p className="flex items-start">
                       <span className="text-slate-400 mr-2">•</span>
-                      <span>Assumes price applies at renewal to existing subscribers</span>
+                      <span>
+                        {result.rollout.mode === "all" && "Assumes price applies at renewal to all existing subscribers"}
+                        {result.rollout.mode === "grandfather" && `${formatPercent(1 - result.rollout.existingExposedShare, 0)} of existing subscribers grandfathered at the old price`}
+                        {result.rollout.mode === "newSignupsOnly" && "Existing subscribers keep the old price; only new signups pay the new price"}
+                        {result.rollout.mode === "phased" && `Existing subscribers move to the new price in equal batches over ${result.rollout.phaseMonths} months`}
+                      </span>
+                    </p>
+                    {result.annualRenewal && (
+                      <p className="flex items-start">
+                        <span className="text-slate-400 mr-2">•</span>
+                        <span>
+                          Annual plan: price change and churn apply at renewal,
+                          {result.annualRenewal.distribution === "even" ? " with renewals spread evenly over 12 months" : " with renewals estimated from the plan creation date"}
+                          {` (${result.annualRenewal.renewalShareByMonth.filter(share => share > 0).length} of the next 12 months have renewals)`}
+                        </span>
+                      </p>
+                    )}
+                    <p className="flex items-start">
+                      <span className="text-slate-400 mr-2">•</span>
+                      <span>New signups ({formatNumber(Math.round(result.rollout.newSignupsPerMonth))}/month) replace baseline churn, pay the new price and churn at the baseline rate</span>
                     </p>
                     <p className="flex items-start">
                       <span className="text-slate-400 mr-2">•</span>
                       <span>Assumes acquisition unchanged</span>
                     </p>
+                    <p className="flex items-start">
+                      <span className="text-slate-400 mr-2">•</span>
+                      <span>Revenue projection: expected 90-day churn applies for the first 3 months, then the excess over baseline fades with a 3-month half-life</span>
+                    </p>
+                    {result.inputs.recencyHalfLifeDays && (
+                      <p className="flex items-start">
+                        <span className="text-slate-400 mr-2">•</span>
+                        <span>Comparable events down-weighted with a {result.inputs.recencyHalfLifeDays}-day half-life, measured from the newest event</span>
+                      </p>
+                    )}
+                    {result.shrinkage && (
+                      <p className="flex items-start">
+                        <span className="text-slate-400 mr-2">•</span>
+                        <span>Merchant lift shrunk toward the global mean by the ratio of its sampling variance to the between-merchant variance (empirical Bayes), with the between-merchant variance floored at 10% of the total lift variance</span>
+                      </p>
+                    )}
+                    {result.bootstrap && (
+                      <p className="flex items-start">
+                        <span className="text-slate-400 mr-2">•</span>
+                        <span>ARR range from {result.bootstrap.iterations} bootstrap resamples of comparable events (seed {result.bootstrap.seed})</span>
+                      </p>
+                    )}
                     <p className="flex items-start">
                       <span className="text-slate-400 mr-2">•</span>
                       <span>Prototype: ML increases precision and scale later</span>
@@ -0,0 +1,300 @@
+import { useState, useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useDataset } from '../data/datasetContext';
+import { getDatasetIndex } from '../data/datasetIndex';
+import {
+  postSaveLifetimeCurves,
+  recoveryTimeCurves,
+  postResumeChurnCurves,
+  survivalAt,
+  DUNNING_GROUPING_LABELS,
+  POST_RESUME_WINDOW_DAYS,
+  type DunningGrouping,
+  type SurvivalGroup,
+} from '../lib/survival';
+import { Card } from '../components/ui/Card';
+import { Select } from '../components/ui/Select';
+import { formatNumber, formatPercent } from '../lib/utils';
+
+type Analysis = "postSaveLifetime" | "timeToRecovery" | "postResumeChurn";
+
+const ANALYSES: Record<Analysis, {
+  label: string;
+  description: string;
+  groupedBy: string;
+  survivalLabel: string; // what the curve's y value means
+  checkpoints: number[]; // days shown in the table
+}> = {
+  postSaveLifetime: {
+    label: "Post-save lifetime",
+    description: "How long subscribers saved in the cancel flow stayed. Those still subscribed at the end of the data are censored.",
+    groupedBy: "Intervention",
+    survivalLabel: "Still subscribed",
+    checkpoints: [30, 90, 180, 365],
+  },
+  timeToRecovery: {
+    label: "Time to payment recovery",
+    description: "How long failed payments took to recover. Payments that never recovered are censored when their retry window closed.",
+    groupedBy: "Dunning config",
+    survivalLabel: "Not yet recovered",
+    checkpoints: [3, 7, 14, 30],
+  },
+  postResumeChurn: {
+    label: "Churn after pause",
+    description: `Churn among subscribers who resumed after a pause. Only the ${POST_RESUME_WINDOW_DAYS}-day outcome is recorded, so each curve has a single step.`,
+    groupedBy: "Pause cycles",
+    survivalLabel: "Still subscribed",
+    checkpoints: [POST_RESUME_WINDOW_DAYS],
+  },
+};
+
+// Beyond this many curves the chart is unreadable; the table still lists every group
+const MAX_CHARTED_GROUPS = 6;
+
+const GROUP_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#64748b"];
+
+export function SurvivalPage() {
+  const dataset = useDataset();
+  const [analysis, setAnalysis] = useState<Analysis>("postSaveLifetime");
+  const [dunningGrouping, setDunningGrouping] = useState<DunningGrouping>("retries");
+  const [planId, setPlanId] = useState<string>(""); // empty for every plan in the dataset
+  const [minObservations, setMinObservations] = useState<string>("10");
+  const [showBands, setShowBands] = useState<boolean>(true);
+
+  const groups = useMemo(() => {
+    const index = getDatasetIndex(dataset);
+    switch (analysis) {
+      case "postSaveLifetime":
+        return postSaveLifetimeCurves(
+          planId ? index.cancellationEventsByPlan.get(planId) ?? [] : dataset.cancellationEvents,
+          index.latestCancellationEventTime
+        );
+      case "timeToRecovery":
+        return recoveryTimeCurves(
+          planId ? index.paymentEventsByPlan.get(planId) ?? [] : dataset.paymentFailureEvents,
+          index.latestPaymentEventTime,
+          dunningGrouping
+        );
+      case "postResumeChurn":
+        return postResumeChurnCurves(
+          planId ? index.pauseEventsByPlan.get(planId) ?? [] : dataset.pauseEvents,
+          index.latestPauseEventTime
+        );
+    }
+  }, [dataset, analysis, dunningGrouping, planId]);
+
+  const minCount = Math.max(parseInt(minObservations) || 0, 0);
+  const shownGroups = groups.filter(g => g.curve.observations > 0 && g.curve.observations >= minCount);
+  const chartedGroups = shownGroups.slice(0, MAX_CHARTED_GROUPS);
+  const hiddenGroups = groups.length - shownGroups.length;
+  const config = ANALYSES[analysis];
+
+  const seriesOf = (group: SurvivalGroup) =>
+    group.curve.points.map(point => ({ time: point.time, survival: point.survival, band: [point.lower, point.upper] }));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900 mb-2 tracking-tight">Survival Analysis</h1>
+        <p className="text-slate-600 text-lg">
+          Kaplan–Meier curves for saved subscribers, payment recovery and churn after a pause
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card title="Curves">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-5">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                Analysis
+              </label>
+              <Select value={analysis} onChange={(e) => setAnalysis(e.target.value as Analysis)}>
+                {(Object.keys(ANALYSES) as Analysis[]).map(key => (
+                  <option key={key} value={key}>{ANALYSES[key].label}</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                Plan
+              </label>
+              <Select value={planId} onChange={(e) => setPlanId(e.target.value)}>
+                <option value="">All plans</option>
+                {dataset.merchants.map(merchant => (
+                  <optgroup key={merchant.id} label={merchant.name}>
+                    {dataset.plans.filter(p => p.merchantId === merchant.id).map(plan => (
+                      <option key={plan.id} value={plan.id}>{plan.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                Group By
+              </label>
+              {analysis === "timeToRecovery" ? (
+                <Select value={dunningGrouping} onChange={(e) => setDunningGrouping(e.target.value as DunningGrouping)}>
+                  {(Object.keys(DUNNING_GROUPING_LABELS) as DunningGrouping[]).map(key => (
+                    <option key={key} value={key}>{DUNNING_GROUPING_LABELS[key]}</option>
+                  ))}
+                </Select>
+              ) : (
+                <Select value={config.groupedBy} disabled>
+                  <option value={config.groupedBy}>{config.groupedBy}</option>
+                </Select>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2.5">
+                Min Observations per Group
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={minObservations}
+                onChange={(e) => setMinObservations(e.target.value)}
+                className="w-full px-3.5 py-2.5 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+              />
+            </div>
+          </div>
+          <div className="mt-5 flex items-center justify-between">
+            <p className="text-sm text-slate-600">{config.description}</p>
+            <label className="flex items-center space-x-3 cursor-pointer shrink-0 ml-4">
+              <input
+                type="checkbox"
+                checked={showBands}
+                onChange={(e) => setShowBands(e.target.checked)}
+                className="w-4 h-4 text-primary-600 border-slate-300 rounded focus:ring-primary-500 focus:ring-2"
+              />
+              <span className="text-sm font-semibold text-slate-700">
+                95% Confidence Bands
+              </span>
+            </label>
+          </div>
+        </Card>
+
+        {shownGroups.length === 0 ? (
+          <Card>
+            <p className="text-sm text-slate-600">
+              No group has enough observations for this analysis. Pick another plan or lower the minimum.
+            </p>
+          </Card>
+        ) : (
+          <>
+            <Card title={config.label}>
+              <ResponsiveContainer width="100%" height={400}>
+                <ComposedChart margin={{ top: 10, right: 30, left: 20, bottom: 30 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis
+                    type="number"
+                    dataKey="time"
+                    domain={[0, 'dataMax']}
+                    tick={{ fill: '#64748b', fontSize: 12 }}
+                    axisLine={{ stroke: '#cbd5e1' }}
+                    label={{ value: 'Days', position: 'insideBottom', offset: -15, style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }}
+                  />
+                  <YAxis
+                    domain={[0, 1]}
+                    tickFormatter={(value) => formatPercent(value, 0)}
+                    tick={{ fill: '#64748b', fontSize: 12 }}
+                    axisLine={{ stroke: '#cbd5e1' }}
+                    label={{ value: config.survivalLabel, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: '#64748b', fontSize: 12 } }}
+                  />
+                  <Tooltip
+                    formatter={(value) => typeof value === "number" ? formatPercent(value) : ''}
+                    labelFormatter={(label) => `Day ${formatNumber(Math.round(Number(label)))}`}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 16px 0 rgba(0, 0, 0, 0.08)'
+                    }}
+                  />
+                  <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                  {showBands && chartedGroups.map((group, i) => (
+                    <Area
+                      key={`${group.key}-band`}
+                      data={seriesOf(group)}
+                      dataKey="band"
+                      type="stepAfter"
+                      stroke="none"
+                      fill={GROUP_COLORS[i]}
+                      fillOpacity={0.12}
+                      legendType="none"
+                      tooltipType="none"
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {chartedGroups.map((group, i) => (
+                    <Line
+                      key={group.key}
+                      data={seriesOf(group)}
+                      dataKey="survival"
+                      name={group.label}
+                      type="stepAfter"
+                      stroke={GROUP_COLORS[i]}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+              {shownGroups.length > chartedGroups.length && (
+                <p className="text-xs text-slate-500 mt-4">
+                  Showing the {MAX_CHARTED_GROUPS} largest of {shownGroups.length} groups; the table lists all of them.
+                </p>
+              )}
+            </Card>
+
+            <Card title="Groups">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">{analysis === "timeToRecovery" ? DUNNING_GROUPING_LABELS[dunningGrouping] : config.groupedBy}</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Observations</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Events</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Censored</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Median (Days)</th>
+                      {config.checkpoints.map(day => (
+                        <th key={day} className="px-4 py-3 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">Day {day}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {shownGroups.map(group => (
+                      <tr key={group.key}>
+                        <td className="px-4 py-3 text-sm text-slate-900 font-medium">{group.label}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(group.curve.observations)}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(group.curve.events)}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">{formatNumber(group.curve.censored)}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900">
+                          {group.curve.medianTime !== null ? formatNumber(Math.round(group.curve.medianTime)) : "Not reached"}
+                        </td>
+                        {config.checkpoints.map(day => {
+                          const point = survivalAt(group.curve, day);
+                          return (
+                            <td key={day} className="px-4 py-3 text-sm text-slate-900">
+                              {formatPercent(point.survival)}
+                              <div className="text-xs text-slate-500">{formatPercent(point.lower)} to {formatPercent(point.upper)}</div>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-500 mt-4">
+                Survival is the share {config.survivalLabel.toLowerCase()} after each day, with a 95% confidence interval (Greenwood).
+                {hiddenGroups > 0 && ` ${formatNumber(hiddenGroups)} group${hiddenGroups > 1 ? "s" : ""} with fewer than ${formatNumber(minCount)} observations hidden.`}
+              </p>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { SimulationInput, SimulationResult, PriceOptimizationInput, PriceOptimizationResult } from '../lib/simulate';
+import type { PriceOptimizerInput, PriceOptimizerResult } from '../lib/optimize';
+import type { ChurnLeverOptimizationInput, ChurnLeverOptimizationResult } from '../lib/optimizeChurn';
+import type { Dataset } from '../data/types';
+
+// Payload sent with each job type and the result the worker answers with
+export interface WorkerJobs {
+  simulate: { payload: SimulationInput[]; result: SimulationResult[] };
+  findOptimalPrice: { payload: PriceOptimizationInput; result: PriceOptimizationResult };
+  optimizePrice: { payload: PriceOptimizerInput; result: PriceOptimizerResult };
+  optimizeChurnLevers: { payload: ChurnLeverOptimizationInput; result: ChurnLeverOptimizationResult };
+}
+
+export type WorkerJobType = keyof WorkerJobs;
+
+export type WorkerJobResult = WorkerJobs[WorkerJobType]["result"];
+
+export interface WorkerJobRequest<K extends WorkerJobType> {
+  type: "job";
+  jobId: number;
+  job: K;
+  payload: WorkerJobs[K]["payload"];
+}
+
+export type WorkerRequest =
+  // The dataset is sent once and kept by the worker until a different one arrives
+  | { type: "setDataset"; dataset: Dataset }
+  | { [K in WorkerJobType]: WorkerJobRequest<K> }[WorkerJobType];
+
+export type WorkerResponse =
+  | { type: "progress"; jobId: number; completed: number; total: number }
+  | { type: "result"; jobId: number; result: WorkerJobResult }
+  | { type: "error"; jobId: number; message: string };
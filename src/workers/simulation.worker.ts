@@ -0,0 +1,48 @@
+import { simulate, findOptimalPriceFor } from '../lib/simulate';
+import { optimizePrice } from '../lib/optimize';
+import { optimizeChurnLevers } from '../lib/optimizeChurn';
+import type { Dataset } from '../data/types';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+let dataset: Dataset | null = null;
+
+function post(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+function runJob(request: Extract<WorkerRequest, { type: "job" }>, data: Dataset) {
+  const onProgress = (completed: number, total: number) =>
+    post({ type: "progress", jobId: request.jobId, completed, total });
+
+  switch (request.job) {
+    case "simulate":
+      return request.payload.map((input, i) => {
+        const result = simulate(data, input);
+        onProgress(i + 1, request.payload.length);
+        return result;
+      });
+    case "findOptimalPrice":
+      return findOptimalPriceFor(data, request.payload, onProgress);
+    case "optimizePrice":
+      return optimizePrice(data, request.payload, onProgress);
+    case "optimizeChurnLevers":
+      return optimizeChurnLevers(data, request.payload, onProgress);
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "setDataset") {
+    dataset = request.dataset;
+    return;
+  }
+
+  try {
+    if (!dataset) {
+      throw new Error("No dataset loaded in simulation worker");
+    }
+    post({ type: "result", jobId: request.jobId, result: runJob(request, dataset) });
+  } catch (error) {
+    post({ type: "error", jobId: request.jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,102 @@
+import type { Dataset } from '../data/types';
+import type { WorkerJobRequest, WorkerJobResult, WorkerJobs, WorkerJobType, WorkerRequest, WorkerResponse } from './protocol';
+
+const JOB_CANCELLED_MESSAGE = "Simulation job cancelled";
+
+export function isJobCancelled(error: unknown): boolean {
+  return error instanceof Error && error.message === JOB_CANCELLED_MESSAGE;
+}
+
+export type ProgressHandler = (completed: number, total: number) => void;
+
+export interface SimulationClient {
+  run<K extends WorkerJobType>(
+    dataset: Dataset,
+    job: K,
+    payload: WorkerJobs[K]["payload"],
+    onProgress?: ProgressHandler
+  ): Promise<WorkerJobs[K]["result"]>;
+  // Stops every in-flight job; their promises reject with a cancellation error
+  cancel(): void;
+}
+
+interface PendingJob {
+  // Method syntax so each run()'s resolver, typed for its own job, fits the shared map
+  resolve(result: WorkerJobResult): void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressHandler;
+}
+
+/**
+ * Client for the simulation worker. Jobs run one after another in a single worker, off the main
+ * thread. A running simulation can't be interrupted from inside, so cancel() terminates the worker;
+ * the next run() starts a fresh one and re-sends the dataset. A worker that crashes or sends an
+ * unreadable message is dropped the same way, failing its pending jobs.
+ */
+export function createSimulationClient(): SimulationClient {
+  let worker: Worker | null = null;
+  let workerDataset: Dataset | null = null;
+  let nextJobId = 1;
+  const pending = new Map<number, PendingJob>();
+
+  const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const job = pending.get(response.jobId);
+    if (!job) return;
+
+    switch (response.type) {
+      case "progress":
+        job.onProgress?.(response.completed, response.total);
+        break;
+      case "result":
+        pending.delete(response.jobId);
+        job.resolve(response.result);
+        break;
+      case "error":
+        pending.delete(response.jobId);
+        job.reject(new Error(response.message));
+        break;
+    }
+  };
+
+  // Terminate the worker and reject every pending job with `error`
+  const reset = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    workerDataset = null;
+    const failed = [...pending.values()];
+    pending.clear();
+    failed.forEach(job => job.reject(error));
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = event => reset(new Error(`Simulation worker failed: ${event.message || "unknown error"}`));
+      worker.onmessageerror = () => reset(new Error("Simulation worker sent a message that could not be read"));
+    }
+    return worker;
+  };
+
+  const send = (request: WorkerRequest | WorkerJobRequest<WorkerJobType>) => getWorker().postMessage(request);
+
+  return {
+    run(dataset, job, payload, onProgress) {
+      if (workerDataset !== dataset) {
+        send({ type: "setDataset", dataset });
+        workerDataset = dataset;
+      }
+      const jobId = nextJobId++;
+      return new Promise((resolve, reject) => {
+        pending.set(jobId, { resolve, reject, onProgress });
+        send({ type: "job", jobId, job, payload });
+      });
+    },
+
+    cancel() {
+      if (!worker) return;
+      reset(new Error(JOB_CANCELLED_MESSAGE));
+    },
+  };
+}
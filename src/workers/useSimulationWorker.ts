@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { createSimulationClient, type SimulationClient } from './simulationClient';
+
+// One worker per component; in-flight jobs are cancelled when the component unmounts
+export function useSimulationWorker(): SimulationClient {
+  const [client] = useState(createSimulationClient);
+  useEffect(() => () => client.cancel(), [client]);
+  return client;
+}